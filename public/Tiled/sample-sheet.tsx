@@ -1,4 +1,54 @@
 <?xml version="1.0" encoding="UTF-8"?>
 <tileset version="1.10" tiledversion="1.10.2" name="tilemap_packed" tilewidth="8" tileheight="8" tilecount="150" columns="15">
  <image source="./tilemap_packed.png" width="120" height="80"/>
+ <tile id="0">
+  <properties>
+   <property name="spawn" value="goose"/>
+  </properties>
+ </tile>
+ <tile id="1">
+  <properties>
+   <property name="spawn" value="gooseling"/>
+  </properties>
+ </tile>
+ <tile id="8">
+  <properties>
+   <property name="spawn" value="key"/>
+  </properties>
+ </tile>
+ <tile id="66">
+  <properties>
+   <property name="type" value="spike"/>
+  </properties>
+ </tile>
+ <tile id="70">
+  <properties>
+   <property name="type" value="door"/>
+  </properties>
+ </tile>
+ <tile id="71">
+  <properties>
+   <property name="type" value="door"/>
+  </properties>
+ </tile>
+ <tile id="75">
+  <properties>
+   <property name="type" value="spike"/>
+  </properties>
+ </tile>
+ <tile id="76">
+  <properties>
+   <property name="type" value="finish"/>
+  </properties>
+ </tile>
+ <tile id="85">
+  <properties>
+   <property name="type" value="door"/>
+  </properties>
+ </tile>
+ <tile id="86">
+  <properties>
+   <property name="type" value="door"/>
+  </properties>
+ </tile>
 </tileset>
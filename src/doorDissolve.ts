@@ -1,6 +1,6 @@
 // src/doorDissolve.ts
-import type { TiledWorld } from "./tiled";
-import { GID_MASK } from "./tiled";
+import type { TiledWorld, TileSet } from "./tiled";
+import { localIndexIn, tileClassOf, tilePropsOf } from "./tiled";
 
 export type DoorDissolve = {
   active: boolean;
@@ -11,9 +11,20 @@ export type DoorDissolve = {
 };
 
 export type DoorDissolveOpts = {
-  localIndexes: number[];
+  // which tiles dissolve: by TSX tile class (any tileset) and/or local indexes
+  tileClass?: string;
+  localIndexes?: number[];
   layers?: string[];
 
+  // tileset the local indexes refer to (default: the world's primary tileset)
+  tileset?: TileSet;
+
+  // only tiles whose centre lies in this box (world px) dissolve, e.g. one door group
+  region?: { x: number; y: number; w: number; h: number };
+
+  // only tiles whose TSX property matches (case-insensitive), e.g. { name: "color", value: "red" }
+  tileProp?: { name: string; value: string };
+
   // Make this longer to slow it down (seconds).
   durationSec?: number;
 
@@ -79,7 +90,8 @@ export function createDoorDissolve() {
   };
 
   function begin(world: TiledWorld, nowTime: number, opts: DoorDissolveOpts) {
-    const { map, ts } = world;
+    const { map } = world;
+    const ts = opts.tileset ?? world.ts;
 
     const layers = opts.layers ?? DEFAULT_LAYERS;
 
@@ -98,21 +110,47 @@ export function createDoorDissolve() {
     const tilePx = map.tw | 0;
     const cellTiles = Math.max(1, ((cellPx / Math.max(1, tilePx)) + 0.999) | 0);
 
-    const doorGids = opts.localIndexes.map((n) => u32(ts.firstgid + (n - 1)));
+    const doorLocals = opts.localIndexes ?? [];
+    const doorClass = opts.tileClass ?? "";
+    const tileProp = opts.tileProp;
+    const propOk = (gidRaw: number) =>
+      !tileProp ||
+      (tilePropsOf(world.tilesets, gidRaw)?.[tileProp.name] || "").trim().toLowerCase() === tileProp.value.toLowerCase();
     const isDoor = (gidRaw: number) => {
-      const g = u32(gidRaw & GID_MASK);
-      for (let i = 0; i < doorGids.length; i++) if (g === doorGids[i]) return true;
+      if (!propOk(gidRaw)) return false;
+      if (doorClass && tileClassOf(world.tilesets, gidRaw) === doorClass) return true;
+      const li = localIndexIn(ts, gidRaw);
+      if (!li) return false;
+      for (let i = 0; i < doorLocals.length; i++) if (li === doorLocals[i]) return true;
       return false;
     };
 
+    const region = opts.region;
+    const inRegion = (i: number) => {
+      if (!region) return true;
+      const px = ((i % map.w) + 0.5) * map.tw;
+      const py = (((i / map.w) | 0) + 0.5) * map.th;
+      return px >= region.x && px < region.x + region.w && py >= region.y && py < region.y + region.h;
+    };
+
     const seen = new Uint8Array(map.w * map.h);
     const tmp: number[] = [];
 
+    // a dissolve still running (another door) keeps its remaining tiles, queued first
+    const carried: number[] = [];
+    if (state.active) {
+      for (let i = state.removed; i < state.total; i++) {
+        const idx = state.order[i] | 0;
+        seen[idx] = 1;
+        carried.push(idx);
+      }
+    }
+
     for (let li = 0; li < layers.length; li++) {
       const L = (map as any)[layers[li]] as Uint32Array | undefined;
       if (!L) continue;
       for (let i = 0; i < L.length; i++) {
-        if (!seen[i] && isDoor(L[i] >>> 0)) {
+        if (!seen[i] && isDoor(L[i] >>> 0) && inRegion(i)) {
           seen[i] = 1;
           tmp.push(i);
         }
@@ -120,6 +158,7 @@ export function createDoorDissolve() {
     }
 
     if (!tmp.length) return false;
+    const carriedRate = state.active ? state.rate : 0;
 
     const seed =
       (opts.seed ??
@@ -133,8 +172,9 @@ export function createDoorDissolve() {
       return ta - tb || (ia - ib);
     });
 
-    const order = new Uint32Array(tmp.length);
-    for (let i = 0; i < tmp.length; i++) order[i] = tmp[i] >>> 0;
+    const order = new Uint32Array(carried.length + tmp.length);
+    for (let i = 0; i < carried.length; i++) order[i] = carried[i] >>> 0;
+    for (let i = 0; i < tmp.length; i++) order[carried.length + i] = tmp[i] >>> 0;
 
     state.active = true;
     state.total = order.length;
@@ -142,8 +182,8 @@ export function createDoorDissolve() {
     state.order = order;
 
     // rate from duration (tiles/sec), clamped
-    const rawRate = order.length / Math.max(0.15, durationSec);
-    state.rate = Math.max(minRate, Math.min(maxRate, rawRate));
+    const rawRate = tmp.length / Math.max(0.15, durationSec);
+    state.rate = Math.max(carriedRate, minRate, Math.min(maxRate, rawRate));
 
     return true;
   }
@@ -179,6 +219,21 @@ export function createDoorDissolve() {
     }
   }
 
+  // drop any running dissolve (tiles left in place), e.g. when the world is swapped or restored
+  function cancel() {
+    state.active = false;
+    state.total = 0;
+    state.removed = 0;
+    (state as any)._acc = 0;
+  }
+
+  // remove every remaining tile now
+  function finish(world: TiledWorld, opts?: { layers?: string[] }) {
+    if (!state.active) return;
+    (state as any)._acc = state.total - state.removed;
+    step(world, 0, opts);
+  }
+
   function isActive() {
     return state.active;
   }
@@ -187,5 +242,5 @@ export function createDoorDissolve() {
     return { active: state.active, removed: state.removed, total: state.total };
   }
 
-  return { state, begin, step, isActive, progress };
+  return { state, begin, step, cancel, finish, isActive, progress };
 }
@@ -1,32 +1,40 @@
 // src/game.ts
 import type { TiledWorld } from "./tiled";
-import { createMountainBG } from "./bgMountains";
+import { type MountainBG, createMountainBG } from "./bgMountains";
 import { drawWaterfalls } from "./bgWaterfall";
 import { drawTilePatterns } from "./bgTilePatterns";
 import type { Player } from "./player";
+import { aabbHitsTiles } from "./playerPhysics";
 import type { Keys } from "./input";
 
 import { createDoorDissolve } from "./doorDissolve";
 
 import type { SoundSystem } from "./sound";
+import type { SaveStore } from "./save";
+import { isLevelUnlocked, type ExternalLevel, type LevelEntry } from "./game/levelManifest";
 import { createUiMessageSystem } from "./uiMessage";
 import { createUiHudSystem } from "./uiHud";
 
 import type { Cam } from "./game/types";
 import { entityCollider, hazardCollider, aabbOverlaps, keyCollider } from "./game/colliders";
 import { resolveEntityCollisions } from "./game/entitySeparation";
-import { aabbOverlapsTileLocalIndex } from "./game/tileOverlap";
+import { aabbOverlapsTileClass } from "./game/tileOverlap";
 import { createAudioRig } from "./game/audioRig";
 import { createCameraFocusController } from "./game/cameraFocus";
-import { drawWorldMap } from "./game/drawMap";
+import { drawImageLayers, drawWorldMap } from "./game/drawMap";
 import { createLevelRuntime } from "./game/levelRuntime";
 import { createSequenceController } from "./game/sequences";
+import { createTriggerSystem, type TriggerSnapshot } from "./game/triggers";
+import { doorTargetOf, type DoorTarget } from "./game/keyDoors";
+import { checkpointAt } from "./game/checkpoints";
+import { carryRiders } from "./game/platforms";
 import {
   CAM_PAN_SEC,
   DEATH_HOLD_SEC,
-  DOOR_LOCAL_INDEXES,
-  FINISH_LOCAL_INDEX,
-  SPIKE_LOCAL_INDEXES,
+  TILE_CLASS_DOOR,
+  TILE_CLASS_FINISH,
+  TILE_CLASS_SPIKE,
+  TITLE_HOLD_SEC,
   WIN_HOLD_SEC,
 } from "./game/constants";
 
@@ -37,13 +45,24 @@ export type Game = {
   get invert(): boolean;
   toggleInvert(): void;
 
-  mountainBG: ReturnType<typeof createMountainBG>;
+  mountainBG: MountainBG;
   userGesture(): void;
 
   loadLevel(i: number): void;
   nextLevel(): void;
   getLevelIndex(): number;
   getLevelCount(): number;
+  getLevelProps(): Record<string, string>;
+  getLevels(): readonly LevelEntry[];
+  isLevelUnlocked(i: number): boolean;
+  // playtest a dropped map (levelDrop.ts); returns its level index (not loaded yet)
+  addExternalLevel(x: ExternalLevel): number;
+  // normal track for the current level: map property "music", else the manifest's
+  getLevelMusic(): string | undefined;
+
+  // dev: a Tiled file under public/ changed (see tiledHotReload.ts)
+  hotReload(path: string): void;
+  loadLevelPreview(i: number): Promise<TiledWorld>;
 
   update(dt: number, keys: Keys): void;
   draw(offCtx: CanvasRenderingContext2D, vw: number, vh: number): void;
@@ -51,78 +70,51 @@ export type Game = {
 
 export type CreateGameOpts = {
   sound?: SoundSystem;
+  // level manifest JSON (levelManifest.ts); `levels` is a plain URL list alternative
+  manifestUrl?: string;
   levels?: string[];
+  // maps from outside the manifest (?level=); the first one is the boot level
+  externalLevels?: ExternalLevel[];
+  // default: resume at the save's last level (if unlocked), else 0
   startLevel?: number;
 
+  // persistent progress + settings (optional; nothing is recorded without it)
+  save?: SaveStore;
+
+  // Tiled project file / objecttypes.json supplying per-class object property defaults
+  objectTypesUrl?: string;
+
   // music hooks (main.ts owns the ogg players)
   onWinMusicBegin?: () => void;
   onWinMusicEnd?: () => void;
 
   // normal (non-win) music: let main.ts pick the per-level track
-  onLevelMusic?: (levelIndex: number) => void;
+  // (track = the map's "music" property, an asset path, or undefined for the default rotation)
+  onLevelMusic?: (levelIndex: number, track?: string) => void;
 
   // called when the FINAL level is completed
   onGameComplete?: () => void;
 };
 
-type Aabb = { x: number; y: number; w: number; h: number };
-
-function aabbOverlapsAabb(a: Aabb, b: Aabb) {
-  return a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
-}
-
-// standard ray-cast point-in-poly
-function pointInPoly(px: number, py: number, pts: { x: number; y: number }[]) {
-  let inside = false;
-  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
-    const xi = pts[i].x,
-      yi = pts[i].y;
-    const xj = pts[j].x,
-      yj = pts[j].y;
-
-    const intersect =
-      yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi + 1e-12) + xi;
-    if (intersect) inside = !inside;
-  }
-  return inside;
-}
-
-// AABB vs polygon overlap heuristic (fast + solid for “player enters zone” triggers):
-// - quick AABB reject
-// - if any AABB corner inside poly => overlap
-// - if any poly vertex inside AABB => overlap
-function aabbOverlapsPoly(a: Aabb, pts: { x: number; y: number }[], polyAabb: Aabb) {
-  if (!aabbOverlapsAabb(a, polyAabb)) return false;
-
-  const x0 = a.x,
-    y0 = a.y;
-  const x1 = a.x + a.w,
-    y1 = a.y + a.h;
-
-  // AABB corners + center
-  const cx = (x0 + x1) * 0.5;
-  const cy = (y0 + y1) * 0.5;
-
-  if (pointInPoly(x0, y0, pts)) return true;
-  if (pointInPoly(x1, y0, pts)) return true;
-  if (pointInPoly(x0, y1, pts)) return true;
-  if (pointInPoly(x1, y1, pts)) return true;
-  if (pointInPoly(cx, cy, pts)) return true;
-
-  // any vertex inside AABB
-  for (let i = 0; i < pts.length; i++) {
-    const p = pts[i];
-    if (p.x >= x0 && p.x <= x1 && p.y >= y0 && p.y <= y1) return true;
-  }
-
-  return false;
-}
-
 export async function createGame(vw: number, vh: number, opts?: CreateGameOpts): Promise<Game> {
   const cam: Cam = { x: 0, y: 0 };
-  let invert = false;
-
-  const mountainBG = createMountainBG(vw, vh);
+  const save = opts?.save ?? null;
+  let invert = save?.data.settings.invert ?? false;
+  // playtest levels leave no trace in the save
+  const progress = () => (runtime.level?.external ? null : save);
+
+  // map property "background": mountains (default) | black | white
+  const mountains = createMountainBG(vw, vh);
+  let bgMode = "mountains";
+  const mountainBG: MountainBG = {
+    render(camX, camY) {
+      if (bgMode === "mountains") mountains.render(camX, camY);
+    },
+    sampleScreen(x, y) {
+      if (bgMode === "mountains") return mountains.sampleScreen(x, y);
+      return bgMode === "white" ? 255 : 0;
+    },
+  };
 
   // sound
   const { sfx, play } = createAudioRig(opts?.sound);
@@ -145,6 +137,36 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
     playUiClick: () => play("uiClick", { volume: 0.25, minGapMs: 80 }),
   });
 
+  // dissolve the door tiles of one group (keys + triggers); plays doorOpen if any matched
+  function openDoors(target: DoorTarget) {
+    const world = runtime.world;
+    if (!world) return;
+    const opened = doorFx.begin(world, t, {
+      tileClass: TILE_CLASS_DOOR,
+      region: target.region ?? undefined,
+      tileProp: target.tileProp ?? undefined,
+      durationSec: 0.55,
+      minRate: 18,
+      maxRate: 140,
+    });
+    if (opened) play("doorOpen", { volume: 0.4, detune: +120, minGapMs: 120 });
+  }
+
+  // scripted actions from "ui" trigger objects
+  const triggers = createTriggerSystem({
+    playSfx: (name) => play(name, { volume: 0.5, minGapMs: 120 }),
+    lookAt: (x, y, holdSec) => camFocus.lookAt(x, y, holdSec),
+    openDoors: (region) => openDoors({ region, tileProp: null }),
+    setMusic: (track) => {
+      try {
+        opts?.onLevelMusic?.(runtime.levelIndex | 0, track);
+      } catch {}
+    },
+  });
+
+  // trigger state when the current checkpoint was claimed (the runtime snapshots everything else)
+  let checkpointTriggers: TriggerSnapshot | null = null;
+
   // pending level index for “we are transitioning to this level”
   let pendingLevelIndex = -1;
 
@@ -156,12 +178,65 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
     pendingLevelIndex = -1;
   }
 
+  // level title banner (map property "title"), shown once per level entry
+  let titleSec = 0;
+
+  // boot notice (a playtest map that failed to load), held ahead of the title
+  let notice = "";
+  let noticeSec = 0;
+
+  // time spent in play this attempt (checkpoint respawns keep counting)
+  let levelTimeSec = 0;
+  let titledLevel = -1;
+
+  function levelProps(): Record<string, string> {
+    return runtime.world?.map.props ?? {};
+  }
+
+  function levelMusic(i: number) {
+    return levelProps()["music"]?.trim() || runtime.levels[i | 0]?.music;
+  }
+
+  // banner text: map property "title", else the manifest title
+  function levelTitle() {
+    return (levelProps()["title"] || "").trim() || runtime.level?.title || "";
+  }
+
   function emitLevelMusic(i: number) {
     try {
-      opts?.onLevelMusic?.(i | 0);
+      opts?.onLevelMusic?.(i | 0, levelMusic(i));
     } catch {}
   }
 
+  function applyLevelProps() {
+    const props = levelProps();
+
+    const bg = (props["background"] || "").trim().toLowerCase();
+    bgMode = bg === "none" ? "black" : bg === "black" || bg === "white" ? bg : "mountains";
+
+    const idx = runtime.levelIndex | 0;
+    if (idx !== titledLevel) {
+      titledLevel = idx;
+      titleSec = levelTitle() ? TITLE_HOLD_SEC : 0;
+    }
+  }
+
+  // without a save nothing persists, so nothing is locked either
+  function isUnlocked(i: number) {
+    return !save || isLevelUnlocked(runtime.levels, i, (id) => save.isCleared(id));
+  }
+
+  // boot level from the save: where the player left off, if it is (still) unlocked
+  function resumeLevel(levels: readonly LevelEntry[]) {
+    const i = save ? levels.findIndex((l) => l.id === save.data.lastLevel) : -1;
+    return i > 0 && isLevelUnlocked(levels, i, (id) => !!save?.isCleared(id)) ? i : 0;
+  }
+
+  function bootLevel(levels: readonly LevelEntry[]) {
+    const i = opts?.externalLevels?.length ? levels.findIndex((l) => l.external) : -1;
+    return i >= 0 ? i : resumeLevel(levels);
+  }
+
   function computeNextLevelIndex() {
     const idx = runtime.levelIndex | 0;
     const cnt = Math.max(1, runtime.levelCount | 0);
@@ -171,7 +246,10 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
   // world/entities + loading
   const runtime = createLevelRuntime({
     levels: opts?.levels,
-    startLevel: opts?.startLevel,
+    manifestUrl: opts?.manifestUrl,
+    externalLevels: opts?.externalLevels,
+    startLevel: opts?.startLevel ?? bootLevel,
+    objectTypesUrl: opts?.objectTypesUrl,
 
     // IMPORTANT: never pass a raw "/Key/" or "./Key/" here.
     // This must resolve under Vite's BASE_URL on itch.
@@ -188,11 +266,19 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
       ui.clear();
       sequences.resetAll();
       camFocus.reset();
+      triggers.reset();
+      checkpointTriggers = null;
+      doorFx.cancel();
+      applyLevelProps();
 
       // tell main.ts which normal track should be active for the incoming level
       const idx = pendingLevelIndex >= 0 ? pendingLevelIndex : (runtime.levelIndex | 0);
       emitLevelMusic(idx);
 
+      levelTimeSec = 0;
+      const entry = runtime.levels[idx];
+      if (entry && !entry.external) save?.setLastLevel(entry.id);
+
       // IMPORTANT: don't let a stale pending index survive into later transitions
       clearPendingLevelIndex();
 
@@ -200,6 +286,25 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
         opts?.onWinMusicEnd?.();
       } catch {}
     },
+    onRespawn: () => {
+      ui.clear();
+      sequences.resetAll();
+      doorFx.cancel();
+      // door tiles opened since the checkpoint are back, so the triggers that opened them re-arm
+      triggers.restore(checkpointTriggers);
+    },
+    onBootFailed: (level) => {
+      notice = `LOAD FAILED: ${level.title}`;
+      noticeSec = TITLE_HOLD_SEC;
+    },
+    onLevelReloaded: () => {
+      ui.clear();
+      sequences.resetAll();
+      doorFx.cancel();
+      triggers.reset();
+      checkpointTriggers = null;
+      applyLevelProps();
+    },
   });
 
   // ---- wrappers that MUST be used for transitions (so music can track correctly)
@@ -236,8 +341,15 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
     },
     onWinDone: () => {
       const idx = runtime.levelIndex | 0;
-      const cnt = Math.max(1, runtime.levelCount | 0);
-      if (idx >= cnt - 1) {
+
+      // a playtest map just starts over
+      if (runtime.level?.external) {
+        doLoadLevel(idx);
+        return;
+      }
+
+      // the last manifest level ends the game (playtest maps may follow it)
+      if (!runtime.levels[idx + 1] || runtime.levels[idx + 1].external) {
         try {
           opts?.onGameComplete?.();
         } catch {}
@@ -247,7 +359,9 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
       // IMPORTANT: use the wrapper so pendingLevelIndex is set
       doNextLevel();
     },
-    onDeathDone: () => doLoadLevel(runtime.levelIndex),
+    onDeathDone: () => {
+      if (!runtime.respawnAtCheckpoint()) doLoadLevel(runtime.levelIndex);
+    },
   });
 
   await runtime.init();
@@ -265,7 +379,7 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
   }
 
   function isEntityOnFinish(world: TiledWorld, p: Player) {
-    return aabbOverlapsTileLocalIndex(world, entityCollider(p), FINISH_LOCAL_INDEX, ["tile"]);
+    return aabbOverlapsTileClass(world, entityCollider(p), TILE_CLASS_FINISH, ["tile"]);
   }
 
   function allEntitiesOnFinish(world: TiledWorld) {
@@ -278,8 +392,6 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
   }
 
   function anyEntityOnSpikes(world: TiledWorld, allEntities: Player[]) {
-    const spikeIdx = SPIKE_LOCAL_INDEXES;
-
     // Make goslings a bit more forgiving than the player.
     // (Bigger inset + slightly lifted feet check.)
     const PAD_PLAYER = 2;
@@ -304,9 +416,7 @@ export async function createGame(vw: number, vh: number, opts?: CreateGameOpts):
         h: Math.max(1, collider.h - pad * 2),
       };
 
-      for (let i = 0; i < spikeIdx.length; i++) {
-        if (aabbOverlapsTileLocalIndex(world, reduced, spikeIdx[i], ["tile", "collide"])) return true;
-      }
+      if (aabbOverlapsTileClass(world, reduced, TILE_CLASS_SPIKE, ["tile", "collide"])) return true;
     }
 
     return false;
@@ -352,36 +462,34 @@ if (!keys.r) restartLatch = false;
       return;
     }
 
+    // .world levels: pull in neighbouring maps before the camera reaches them
+    runtime.streamAround(cam.x, cam.y, vw, vh);
+
     // sequence holds (death/win)
     const seqMode = sequences.update(dt);
     if (seqMode !== "normal") {
-      if (runtime.key) runtime.key.update(dt);
+      for (const k of runtime.keys) k.entity.update(dt);
       updateHud(dt);
       camFocus.update(dt);
       return;
     }
 
     // normal update path
-    if (runtime.key) runtime.key.update(dt);
+    levelTimeSec += dt;
+    for (const k of runtime.keys) k.entity.update(dt);
     if (collisionSfxCooldown > 0) collisionSfxCooldown = Math.max(0, collisionSfxCooldown - dt);
 
     const gooselings = runtime.gooselings;
     const allEntities: Player[] = [player, ...gooselings];
     const intentX = (keys.left ? -1 : 0) + (keys.right ? 1 : 0);
 
-    const ww = world.map.w * world.map.tw;
-    const wh = world.map.h * world.map.th;
-    const tw = world.map.tw;
-    const th = world.map.th;
+    const worldInfo = runtime.worldInfo()!;
+    const { w: ww, h: wh, tw, th } = worldInfo;
+    const isSolidPoint = (x: number, y: number) => aabbHitsTiles({ x, y, w: 1, h: 1 }, runtime.isSolidTile, worldInfo);
 
-    const worldInfo = {
-      w: ww,
-      h: wh,
-      tw,
-      th,
-      tilesW: (ww / tw) | 0,
-      tilesH: (wh / th) | 0,
-    };
+    // platforms move first and take their riders along; the physics step then stands them on the new top
+    for (const p of runtime.platforms) p.update(dt);
+    carryRiders(runtime.platforms, allEntities, runtime.isSolidTile, worldInfo);
 
     const pvy0 = player.vy;
     player.update(dt, keys, runtime.isSolidTile, worldInfo);
@@ -395,9 +503,14 @@ if (!keys.r) restartLatch = false;
 
     if (masterJump) play("jump", { volume: 0.55, minGapMs: 40 });
 
-    for (const b of gooselings) b.puppetStep(dt, intentX, player.vx, masterJump, runtime.isSolidTile, worldInfo);
+    const masterDrop = player.droppedThrough;
+    if (masterDrop) play("jump", { volume: 0.35, detune: -400, minGapMs: 40 });
+
+    for (const b of gooselings) {
+      b.puppetStep(dt, intentX, player.vx, masterJump, runtime.isSolidTile, worldInfo, masterDrop);
+    }
 
-    const collided = resolveEntityCollisions(allEntities, ww, wh, runtime.isSolidTile, tw, th);
+    const collided = resolveEntityCollisions(allEntities, ww, wh, runtime.isSolidTile, tw, th, isSolidPoint);
     if (collided && collisionSfxCooldown === 0) {
       play("bump", { volume: 0.18, detune: -180, minGapMs: 70 });
       collisionSfxCooldown = 0.12;
@@ -405,41 +518,35 @@ if (!keys.r) restartLatch = false;
 
     // spikes death
     if (anyEntityOnSpikes(world, allEntities)) {
+      progress()?.recordDeath(runtime.level.id);
       sequences.beginDeath();
       camFocus.update(dt);
       return;
     }
 
-    // --- UI triggers from Tiled object layer "ui"
+    // --- UI triggers from Tiled object layer "ui" (messages + scripted actions)
     // NOW: goslings can trigger dialogs too (any entity overlap keeps the message up)
     {
-      let msg = "";
-      const triggers = world.map.ui;
-
-      // Check triggers in map order; first match wins (stable + predictable).
-      for (let i = 0; i < triggers.length && !msg; i++) {
-        const tr = triggers[i];
-
-        // Check any entity (player or gosling)
-        for (let j = 0; j < allEntities.length; j++) {
-          const a = entityCollider(allEntities[j]);
-          if (aabbOverlapsPoly(a, tr.pts, tr.aabb)) {
-            msg = tr.msg;
-            break;
-          }
-        }
-      }
+      const msg = triggers.update(dt, world, allEntities);
+
+      // boot notice, then level title, hold until the first trigger message (or their timers) replace them
+      if (msg) titleSec = noticeSec = 0;
+      else if (noticeSec > 0) noticeSec = Math.max(0, noticeSec - dt);
+      else if (titleSec > 0) titleSec = Math.max(0, titleSec - dt);
 
       if (msg) ui.set(msg);
+      else if (noticeSec > 0) ui.set(notice);
+      else if (titleSec > 0) ui.set(levelTitle());
       else ui.clear();
     }
 
     updateHud(dt);
 
-    // key pickup
-    const k = runtime.key;
-    if (k) {
-      const kA = keyCollider(k);
+    // key pickup: a door group opens once all of its keys are in
+    const levelKeys = runtime.keys;
+    for (let ki = levelKeys.length - 1; ki >= 0; ki--) {
+      const k = levelKeys[ki];
+      const kA = keyCollider(k.entity);
       let picked = false;
 
       for (let i = 0; i < allEntities.length; i++) {
@@ -449,25 +556,32 @@ if (!keys.r) restartLatch = false;
         }
       }
 
-      if (picked && runtime.consumeKey()) {
-        runtime.incKeysCollected();
+      const group = picked ? runtime.collectKey(k) : null;
+      if (!group) continue;
 
-        play("keyPickup", { volume: 0.65, minGapMs: 90 });
-        play("doorOpen", { volume: 0.4, detune: +120, minGapMs: 120 });
+      play("keyPickup", { volume: 0.65, minGapMs: 90 });
 
-        doorFx.begin(world, t, {
-          localIndexes: DOOR_LOCAL_INDEXES,
-          durationSec: 0.55,
-          minRate: 18,
-          maxRate: 140,
-        });
+      if (group.collected >= group.total) {
+        const target = doorTargetOf(world, group);
+        if (target) openDoors(target);
       }
     }
 
+    // checkpoints: only the goose claims them, once it stands on solid ground (the flock respawns
+    // around that spot); a door mid-dissolve counts as open
+    const cp = checkpointAt(world, entityCollider(player));
+    if (cp && cp !== runtime.checkpointId && runtime.standsSafely(player)) {
+      doorFx.finish(world);
+      runtime.saveCheckpoint(cp);
+      checkpointTriggers = triggers.snapshot();
+      play("uiConfirm", { volume: 0.45, detune: +240, minGapMs: 200 });
+    }
+
     doorFx.step(world, dt);
 
     // win condition
     if (allEntitiesOnFinish(world)) {
+      progress()?.recordWin(runtime.level.id, levelTimeSec);
       sequences.beginWin();
       camFocus.update(dt);
       return;
@@ -487,7 +601,10 @@ if (!keys.r) restartLatch = false;
     offCtx.fillRect(0, 0, vw, vh);
 
     const world = runtime.world;
-    if (world) drawWorldMap(offCtx, world, cam, vw, vh);
+    if (world) {
+      drawImageLayers(offCtx, world, cam, vw, vh);
+      drawWorldMap(offCtx, world, cam, vw, vh, t);
+    }
 
     if (world) {
       drawWaterfalls(offCtx, world, cam, vw, vh, t, {
@@ -498,9 +615,11 @@ if (!keys.r) restartLatch = false;
       });
 
       void drawTilePatterns;
+
+      for (const p of runtime.platforms) p.draw(offCtx, world, cam, t);
     }
 
-    if (runtime.key) runtime.key.draw(offCtx, cam);
+    for (const k of runtime.keys) k.entity.draw(offCtx, cam);
 
     const bob = sequences.mode === "win" ? (((Math.sin(sequences.winT * 10) * 2) | 0) as number) : 0;
 
@@ -526,6 +645,7 @@ if (!keys.r) restartLatch = false;
     },
     toggleInvert() {
       invert = !invert;
+      save?.setSettings({ invert });
       play("invert", { volume: 0.2, detune: invert ? +160 : -160, minGapMs: 60 });
     },
     mountainBG,
@@ -541,6 +661,13 @@ if (!keys.r) restartLatch = false;
     getLevelCount() {
       return runtime.levelCount | 0;
     },
+    getLevelProps: levelProps,
+    getLevels: () => runtime.levels,
+    isLevelUnlocked: isUnlocked,
+    addExternalLevel: (x: ExternalLevel) => runtime.addExternalLevel(x),
+    getLevelMusic: () => levelMusic(runtime.levelIndex),
+    hotReload: (path: string) => runtime.hotReload(path),
+    loadLevelPreview: (i: number) => runtime.loadPreview(i),
 
     update,
     draw,
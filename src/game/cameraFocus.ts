@@ -15,6 +15,9 @@ export type CameraFocusController = {
   /** Reset focus to player + cancel any in-flight pan. */
   reset(): void;
 
+  /** Scripted look: pan to a world point, hold, then pan back to the current focus. */
+  lookAt(x: number, y: number, holdSec: number): void;
+
   /** Handle "next focus" input (keys.b / X). */
   handleInput(keys: Keys): void;
 
@@ -60,6 +63,9 @@ export function createCameraFocusController(
     nextFocus: 0,
   };
 
+  // scripted look-at hold (runs after its pan arrives)
+  const look = { active: false, hold: 0 };
+
   function focusCount() {
     return 1 + gooselings.length;
   }
@@ -99,6 +105,22 @@ export function createCameraFocusController(
     pan.nextFocus = nextFocus;
   }
 
+  function lookAt(x: number, y: number, holdSec: number) {
+    const tgt = clampCamToWorld(x - (vw >> 1), y - (vh >> 1));
+
+    pan.active = true;
+    pan.t = 0;
+    pan.dur = panSec;
+    pan.sx = cam.x;
+    pan.sy = cam.y;
+    pan.tx = tgt.x;
+    pan.ty = tgt.y;
+    pan.nextFocus = focus;
+
+    look.active = true;
+    look.hold = Math.max(0, holdSec);
+  }
+
   function setTargets(nextPlayer: Player, nextGooselings: Player[]) {
     player = nextPlayer;
     gooselings = nextGooselings;
@@ -115,6 +137,7 @@ export function createCameraFocusController(
   function reset() {
     focus = 0;
     pan.active = false;
+    look.active = false;
     latch = false;
   }
 
@@ -122,6 +145,7 @@ export function createCameraFocusController(
     // X is bound to keys.b in input.ts
     if (keys.b && !latch) {
       latch = true;
+      if (look.active) return; // don't fight a scripted look
 
       const n = focusCount();
       if (n > 1) {
@@ -156,6 +180,15 @@ export function createCameraFocusController(
       return;
     }
 
+    if (look.active) {
+      look.hold -= dt;
+      if (look.hold <= 0) {
+        look.active = false;
+        beginPanTo(focus);
+      }
+      return;
+    }
+
     const e = focusEntity(focus);
     const tgt = camTargetFor(e);
 
@@ -168,6 +201,7 @@ export function createCameraFocusController(
     setTargets,
     setWorld,
     reset,
+    lookAt,
     handleInput,
     update,
     get focus() {
@@ -0,0 +1,34 @@
+// src/game/checkpoints.ts
+// Checkpoints: "tile" layer tiles of class "checkpoint", or "entities" objects of type "checkpoint".
+import { tileClassOf, type TiledWorld } from "../tiled";
+import { objectRect } from "../tiled/objects";
+import { aabbOverlaps, type CAABB } from "./colliders";
+import { TILE_CLASS_CHECKPOINT } from "./constants";
+import { ENTITY_LAYER } from "./spawn";
+
+/** Stable id of the checkpoint the box touches ("t:<cell>" / "o:<object id>"), or null. */
+export function checkpointAt(w: TiledWorld, aabb: CAABB): string | null {
+  const { map, tilesets } = w;
+
+  for (const o of map.objects[ENTITY_LAYER] ?? []) {
+    const type = (o.type || o.props["type"] || "").trim().toLowerCase();
+    if (type === TILE_CLASS_CHECKPOINT && aabbOverlaps(aabb, objectRect(o))) return "o:" + o.id;
+  }
+
+  const tw = map.tw | 0;
+  const th = map.th | 0;
+  const x0 = Math.max(0, (aabb.x / tw) | 0);
+  const y0 = Math.max(0, (aabb.y / th) | 0);
+  const x1 = Math.min(map.w - 1, ((aabb.x + aabb.w - 1) / tw) | 0);
+  const y1 = Math.min(map.h - 1, ((aabb.y + aabb.h - 1) / th) | 0);
+
+  for (let ty = y0; ty <= y1; ty++) {
+    for (let tx = x0; tx <= x1; tx++) {
+      const i = ty * map.w + tx;
+      const gidRaw = map.tile[i] >>> 0;
+      if (gidRaw && tileClassOf(tilesets, gidRaw) === TILE_CLASS_CHECKPOINT) return "t:" + i;
+    }
+  }
+
+  return null;
+}
@@ -1,16 +1,17 @@
 // src/game/constants.ts
 
-export const DOOR_LOCAL_INDEXES = [71, 72, 86, 87];
-
-// UI trigger tile: tileset-local index (1-based)
-export const UI_TRIGGER_LOCAL_INDEX = 77;
-
-// Finish tile: tileset-local index (1-based)
-export const FINISH_LOCAL_INDEX = 77;
-
-// Spikes tiles: tileset-local indexes (1-based)
-// Add as many as you want here.
-export const SPIKE_LOCAL_INDEXES = [76, 67];
+// Tile classes (TSX/TSJ tile "type" property) that drive gameplay.
+// Spawn tiles use a `spawn=goose|gooseling|key` property instead (see spawn.ts).
+export const TILE_CLASS_DOOR = "door";
+export const TILE_CLASS_FINISH = "finish";
+export const TILE_CLASS_SPIKE = "spike";
+export const TILE_CLASS_CHECKPOINT = "checkpoint";
+// collide-layer ramps (see slopes.ts)
+export const TILE_CLASS_SLOPE = "slope";
+// collide-layer jump-through platforms: solid from above only; down+jump drops through
+export const TILE_CLASS_ONEWAY = "oneway";
+// "entities" objects riding a path (see platforms.ts)
+export const ENTITY_TYPE_PLATFORM = "platform";
 
 // Win sequence timing
 export const WIN_HOLD_SEC = 3.5;
@@ -18,5 +19,8 @@ export const WIN_HOLD_SEC = 3.5;
 // Death/respawn timing
 export const DEATH_HOLD_SEC = 0.65;
 
+// Level title banner (map property "title")
+export const TITLE_HOLD_SEC = 2.5;
+
 // Camera pan timing for "next goose" focus
 export const CAM_PAN_SEC = 0.35;
@@ -1,11 +1,19 @@
 // src/game/drawMap.ts
-import type { TiledWorld } from "../tiled";
+import type { TiledMap, TiledWorld } from "../tiled";
 import { drawTile, GID_MASK } from "../tiled";
 import { clamp } from "./math";
 import type { Cam } from "./types";
 
-export function drawWorldMap(offCtx: CanvasRenderingContext2D, world: TiledWorld, cam: Cam, vw: number, vh: number) {
-  const { map, ts } = world;
+// t = game time (seconds), drives TSX tile animations
+export function drawWorldMap(
+  offCtx: CanvasRenderingContext2D,
+  world: TiledWorld,
+  cam: Cam,
+  vw: number,
+  vh: number,
+  t = 0
+) {
+  const { map, tilesets } = world;
   const tw = map.tw;
   const th = map.th;
 
@@ -24,6 +32,13 @@ export function drawWorldMap(offCtx: CanvasRenderingContext2D, world: TiledWorld
   const tileLayer = (map as any).tile as Uint32Array;
   const collideLayer = (map as any).collide as Uint32Array;
 
+  // layer visibility/opacity from Tiled (drawing only; hidden layers still collide)
+  const alphaA = layerAlpha(map, tileLayer);
+  const alphaB = layerAlpha(map, collideLayer);
+  if (alphaA <= 0 && alphaB <= 0) return;
+
+  const prevAlpha = offCtx.globalAlpha;
+
   for (let ty = y0; ty < y1; ty++) {
     const row = ty * map.w;
     const dy = ((ty - y0) * th - oy) | 0;
@@ -31,10 +46,65 @@ export function drawWorldMap(offCtx: CanvasRenderingContext2D, world: TiledWorld
       const dx = ((tx - x0) * tw - ox) | 0;
 
       const gidA = tileLayer[row + tx] >>> 0;
-      if ((gidA & GID_MASK) !== 0) drawTile(offCtx, ts, gidA, dx, dy);
+      if (alphaA > 0 && (gidA & GID_MASK) !== 0) {
+        offCtx.globalAlpha = alphaA;
+        drawTile(offCtx, tilesets, gidA, dx, dy, t);
+      }
 
       const gidB = collideLayer[row + tx] >>> 0;
-      if ((gidB & GID_MASK) !== 0) drawTile(offCtx, ts, gidB, dx, dy);
+      if (alphaB > 0 && (gidB & GID_MASK) !== 0) {
+        offCtx.globalAlpha = alphaB;
+        drawTile(offCtx, tilesets, gidB, dx, dy, t);
+      }
+    }
+  }
+
+  offCtx.globalAlpha = prevAlpha;
+}
+
+// Handles are shared with map.layers, so find the layer's name by identity.
+function layerAlpha(map: TiledMap, data: Uint32Array): number {
+  for (const name in map.layers) {
+    if (map.layers[name] !== data) continue;
+    const meta = map.layerMeta[name];
+    return !meta ? 1 : meta.visible ? meta.opacity : 0;
+  }
+  return 1;
+}
+
+// Tiled <imagelayer>s, back to front. Screen pos = offset - cam * parallax, so parallax 1
+// tracks the tiles and 0 pins the image to the screen. Draw before the tiles.
+export function drawImageLayers(offCtx: CanvasRenderingContext2D, world: TiledWorld, cam: Cam, vw: number, vh: number) {
+  const layers = world.map.imageLayers;
+  if (!layers.length) return;
+
+  const prevAlpha = offCtx.globalAlpha;
+
+  for (const l of layers) {
+    if (!l.meta.visible || l.meta.opacity <= 0) continue;
+
+    const iw = l.img.width | 0;
+    const ih = l.img.height | 0;
+    if (iw <= 0 || ih <= 0) continue;
+
+    let sx = Math.floor(l.x - cam.x * l.parallaxX);
+    let sy = Math.floor(l.y - cam.y * l.parallaxY);
+
+    // repeating axes: wrap to the first copy left/above the screen edge
+    if (l.repeatX) sx = (((sx % iw) + iw) % iw) - iw;
+    if (l.repeatY) sy = (((sy % ih) + ih) % ih) - ih;
+
+    const x1 = l.repeatX ? vw : sx + 1;
+    const y1 = l.repeatY ? vh : sy + 1;
+
+    offCtx.globalAlpha = l.meta.opacity;
+    for (let y = sy; y < y1; y += ih) {
+      for (let x = sx; x < x1; x += iw) {
+        if (x + iw <= 0 || y + ih <= 0 || x >= vw || y >= vh) continue;
+        offCtx.drawImage(l.img, x, y);
+      }
     }
   }
+
+  offCtx.globalAlpha = prevAlpha;
 }
@@ -49,10 +49,14 @@ function separatePair(
   worldH: number,
   isSolid: (tx: number, ty: number) => boolean,
   tw: number,
-  th: number
+  th: number,
+  isSolidPoint?: (x: number, y: number) => boolean
 ) {
   if (!shouldSeparate(a, b)) return false;
 
+  // tile test, unless the level's physics know better (pixel masks, ramps)
+  const blocked = (x: number, y: number) => (isSolidPoint ? isSolidPoint(x, y) : isSolid((x / tw) | 0, (y / th) | 0));
+
   const A = entityCollider(a);
   const B = entityCollider(b);
 
@@ -83,10 +87,7 @@ function separatePair(
   if (wa > 0) {
     const nextX = a.x + dir * push * wa;
     const testX = dir > 0 ? nextX + a.w : nextX;
-    if (
-      !isSolid((testX / tw) | 0, (a.y / th) | 0) &&
-      !isSolid((testX / tw) | 0, ((a.y + a.h - 1) / th) | 0)
-    ) {
+    if (!blocked(testX, a.y) && !blocked(testX, a.y + a.h - 1)) {
       a.x = clamp(nextX, 0, worldW - a.w);
       if ((dir > 0 && a.vx < 0) || (dir < 0 && a.vx > 0)) a.vx *= 0.2;
     } else {
@@ -97,10 +98,7 @@ function separatePair(
   if (wb > 0) {
     const nextX = b.x - dir * push * wb;
     const testX = dir < 0 ? nextX + b.w : nextX;
-    if (
-      !isSolid((testX / tw) | 0, (b.y / th) | 0) &&
-      !isSolid((testX / tw) | 0, ((b.y + b.h - 1) / th) | 0)
-    ) {
+    if (!blocked(testX, b.y) && !blocked(testX, b.y + b.h - 1)) {
       b.x = clamp(nextX, 0, worldW - b.w);
       if ((dir < 0 && b.vx < 0) || (dir > 0 && b.vx > 0)) b.vx *= 0.2;
     } else {
@@ -123,7 +121,8 @@ export function resolveEntityCollisions(
   worldH: number,
   isSolid: (tx: number, ty: number) => boolean,
   tw: number,
-  th: number
+  th: number,
+  isSolidPoint?: (x: number, y: number) => boolean
 ) {
   const ITERS = 1;
   let anyEver = false;
@@ -132,7 +131,7 @@ export function resolveEntityCollisions(
     let any = false;
     for (let i = 0; i < entities.length; i++) {
       for (let j = i + 1; j < entities.length; j++) {
-        if (separatePair(entities[i], entities[j], i, j, worldW, worldH, isSolid, tw, th)) any = true;
+        if (separatePair(entities[i], entities[j], i, j, worldW, worldH, isSolid, tw, th, isSolidPoint)) any = true;
       }
     }
     if (!any) break;
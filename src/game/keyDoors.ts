@@ -0,0 +1,66 @@
+// src/game/keyDoors.ts
+// Key -> door pairing. A key spawn (entities object, or spawn tile via its TSX props) names its doors with:
+//   door   name of an object whose rect bounds the door tiles it opens (same as trigger `door`)
+//   color  opens "door" tiles whose TSX tile property `color` matches
+// Keys with neither open every door, like before. A group opens once ALL of its keys are collected.
+import type { TiledWorld } from "../tiled";
+import { findObjectByName, objectRect } from "../tiled/objects";
+import type { SpawnPoint } from "./spawn";
+
+export type DoorGroup = {
+  id: string; // "" = unpaired keys (every door)
+  door: string;
+  color: string;
+
+  total: number;
+  collected: number;
+};
+
+export type DoorTarget = {
+  // world px; null = anywhere
+  region: { x: number; y: number; w: number; h: number } | null;
+  // tile prop filter; null = any door tile
+  tileProp: { name: string; value: string } | null;
+};
+
+function pairingOf(sp: SpawnPoint) {
+  const door = (sp.props?.["door"] || "").trim();
+  const color = door ? "" : (sp.props?.["color"] || "").trim().toLowerCase();
+  return { id: door ? "door:" + door : color ? "color:" + color : "", door, color };
+}
+
+/** One group per distinct pairing, in key spawn order; `groupOf[i]` belongs to `keyPoints[i]`. */
+export function buildDoorGroups(keyPoints: SpawnPoint[]): { groups: DoorGroup[]; groupOf: DoorGroup[] } {
+  const groups: DoorGroup[] = [];
+  const byId = new Map<string, DoorGroup>();
+
+  const groupOf = keyPoints.map((sp) => {
+    const p = pairingOf(sp);
+    let g = byId.get(p.id);
+    if (!g) {
+      g = { ...p, total: 0, collected: 0 };
+      byId.set(p.id, g);
+      groups.push(g);
+    }
+    g.total = (g.total + 1) | 0;
+    return g;
+  });
+
+  return { groups, groupOf };
+}
+
+// Resolved when the door opens: streamed .world maps may add the named object late.
+export function doorTargetOf(world: TiledWorld, g: DoorGroup): DoorTarget | null {
+  if (g.door) {
+    const o = findObjectByName(world.map.objects, g.door);
+    return o ? { region: objectRect(o), tileProp: null } : null;
+  }
+  return { region: null, tileProp: g.color ? { name: "color", value: g.color } : null };
+}
+
+/** HUD group: the last touched one while unfinished, else the first unfinished (map order); null = no keys. */
+export function hudDoorGroup(groups: readonly DoorGroup[], last: DoorGroup | null): DoorGroup | null {
+  if (last && last.collected < last.total) return last;
+  for (const g of groups) if (g.collected < g.total) return g;
+  return last ?? groups[groups.length - 1] ?? null;
+}
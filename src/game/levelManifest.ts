@@ -0,0 +1,130 @@
+// src/game/levelManifest.ts
+// The level list as data (public/levels.json, or a mod pack's own manifest):
+//
+//   { "levels": [ { "id": "level1", "map": "Tiled/level1.tmx", "title": "...", "chapter": "...",
+//                   "music": "Music/x.ogg", "parSec": 45, "unlockAfter": ["level0"] }, ... ] }
+//
+// Only id + map are required. Map paths are relative to the manifest; music is an asset path
+// (like the map property "music", which still wins). Without `unlockAfter` a level unlocks when
+// the previous one is cleared; `"unlockAfter": []` means always open. The first level is always open.
+// External levels (dropped files, ?level=) are appended after the manifest: always open, never saved.
+
+export type LevelEntry = {
+  id: string;
+  map: string; // resolved URL
+  title: string; // "" = use the map's "title" property / file name
+  chapter: string;
+  music?: string;
+  parSec?: number;
+  unlockAfter: string[] | null; // null = previous level
+  external?: boolean;
+};
+
+// a map from outside the manifest; `name` is its file path (dropped bundle) or URL
+export type ExternalLevel = { map: string; name: string };
+
+type JsonLevel = {
+  id?: unknown;
+  map?: unknown;
+  title?: unknown;
+  chapter?: unknown;
+  music?: unknown;
+  parSec?: unknown;
+  unlockAfter?: unknown;
+};
+
+const joinUrl = (b: string, r: string) => new URL(r, new URL(b, location.href)).toString();
+
+const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+// File name without extension: default id for plain map lists (and v1 save keys, see save.ts).
+export function levelIdFromUrl(url: string) {
+  const base = url.split(/[?#]/)[0].split("/").pop() || url;
+  return base.replace(/\.[^.]+$/, "");
+}
+
+/** Validate a manifest; throws "Manifest: ..." naming the first bad entry. */
+export function parseLevelManifest(json: unknown, manifestUrl: string): LevelEntry[] {
+  const list = (json as { levels?: unknown } | null)?.levels;
+  if (!Array.isArray(list) || !list.length) throw new Error("Manifest: expected a non-empty \"levels\" array");
+
+  const out: LevelEntry[] = [];
+  const ids = new Set<string>();
+
+  list.forEach((raw: JsonLevel, i) => {
+    const where = `Manifest: level #${i + 1}`;
+    if (!raw || typeof raw !== "object") throw new Error(`${where} is not an object`);
+
+    const id = str(raw.id);
+    const map = str(raw.map);
+    if (!id) throw new Error(`${where} missing "id"`);
+    if (ids.has(id)) throw new Error(`Manifest: duplicate level id "${id}"`);
+    if (!map) throw new Error(`Manifest: level "${id}" missing "map"`);
+    ids.add(id);
+
+    const e: LevelEntry = {
+      id,
+      map: joinUrl(manifestUrl, map),
+      title: str(raw.title),
+      chapter: str(raw.chapter),
+      unlockAfter: null,
+    };
+
+    const music = str(raw.music);
+    if (music) e.music = music;
+
+    if (raw.parSec != null) {
+      const par = Number(raw.parSec);
+      if (!Number.isFinite(par) || par <= 0) throw new Error(`Manifest: level "${id}" has a bad "parSec"`);
+      e.parSec = par;
+    }
+
+    if (raw.unlockAfter != null) {
+      if (!Array.isArray(raw.unlockAfter) || raw.unlockAfter.some((x) => typeof x !== "string")) {
+        throw new Error(`Manifest: level "${id}" "unlockAfter" must be a list of level ids`);
+      }
+      e.unlockAfter = raw.unlockAfter.map((x: string) => x.trim());
+    }
+
+    out.push(e);
+  });
+
+  // requirements may point forward, so check once every id is known
+  for (const e of out) {
+    for (const req of e.unlockAfter ?? []) {
+      if (!ids.has(req)) throw new Error(`Manifest: level "${e.id}" unlocks after unknown level "${req}"`);
+    }
+  }
+
+  return out;
+}
+
+export async function loadLevelManifest(url: string): Promise<LevelEntry[]> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Manifest: failed to load "${url}" (${res.status})`);
+  return parseLevelManifest(await res.json(), url);
+}
+
+// Plain URL list (CreateLevelRuntimeOpts.levels / built-in fallback): linear unlocks, ids from file names.
+export function levelsFromUrls(urls: readonly string[]): LevelEntry[] {
+  return urls.map((map) => ({ id: levelIdFromUrl(map), map, title: "", chapter: "", unlockAfter: null }));
+}
+
+export function externalLevelEntry(x: ExternalLevel): LevelEntry {
+  return {
+    id: `external:${x.name}`,
+    map: x.map,
+    title: levelIdFromUrl(x.name).replace(/[_-]+/g, " "),
+    chapter: "PLAYTEST",
+    unlockAfter: null,
+    external: true,
+  };
+}
+
+export function isLevelUnlocked(levels: readonly LevelEntry[], i: number, isCleared: (id: string) => boolean) {
+  const e = levels[i | 0];
+  if (!e) return false;
+  if ((i | 0) === 0 || e.external) return true;
+  if (!e.unlockAfter) return isCleared(levels[(i | 0) - 1].id);
+  return e.unlockAfter.every(isCleared);
+}
@@ -1,11 +1,34 @@
 // src/game/levelRuntime.ts
-import { loadTiled, type TiledWorld, GID_MASK } from "../tiled";
-import { createPlayer, createGooseEntity, type Player } from "../player";
+import {
+  loadTiled,
+  loadTiledObjectTypes,
+  isWorldUrl,
+  type LoadTiledOpts,
+  type TiledWorld,
+  GID_MASK,
+  tileSolidPixel,
+  tileClassOf,
+} from "../tiled";
+import { createPlayer, createGooseEntity, type Player, type WorldInfo } from "../player";
+import { aabbHitsTiles, type TileSlope } from "../playerPhysics";
 import { loadKeyAtlas, createKeyEntity, type KeyEntity, type KeyAtlas } from "../key";
+import { releaseVirtualBundle, virtualBundleOf } from "../tiled/virtualFiles";
 
 import { clamp } from "./math";
 import { scanSpawnPoints, type SpawnPoint } from "./spawn";
 import { snapToPixel } from "./pixel";
+import { loadWorldRegion, type WorldRegion } from "./worldRegion";
+import { buildDoorGroups, hudDoorGroup, type DoorGroup } from "./keyDoors";
+import { createSlopeLookup } from "./slopes";
+import { buildPlatforms, isOnPlatform, type MovingPlatform } from "./platforms";
+import { TILE_CLASS_ONEWAY } from "./constants";
+import {
+  externalLevelEntry,
+  levelsFromUrls,
+  loadLevelManifest,
+  type ExternalLevel,
+  type LevelEntry,
+} from "./levelManifest";
 import { assetUrl } from "../assetUrl";
 
 export type LevelRuntime = {
@@ -13,23 +36,53 @@ export type LevelRuntime = {
   get world(): TiledWorld | null;
   get player(): Player;
   get gooselings(): Player[];
-  get key(): KeyEntity | null;
+  get keys(): readonly LevelKey[];
+  // moving platforms (object type "platform"); they restart with the level, not at checkpoints
+  get platforms(): readonly MovingPlatform[];
 
-  // per-level counters
+  // per-door key progress for the HUD (the door group the player is working on)
   get keysTotal(): number;
   get keysCollected(): number;
-  incKeysCollected(): void;
 
-  // key lifecycle
-  consumeKey(): boolean;
+  // key lifecycle: removes the key and counts it; returns its group, or null if already taken
+  collectKey(k: LevelKey): DoorGroup | null;
+
+  // checkpoints: snapshot goose/gosling positions + key/door state for this attempt
+  get checkpointId(): string | null;
+  // grounded on tiles (not mid-jump, not riding a platform): a safe spot to respawn at
+  standsSafely(e: Player): boolean;
+  saveCheckpoint(id: string): void;
+  // restore the snapshot in place; false when no checkpoint was reached (caller reloads)
+  respawnAtCheckpoint(): boolean;
 
   // loading + level list
   get loading(): boolean;
   get levelIndex(): number;
   get levelCount(): number;
+  get level(): LevelEntry;
+  get levels(): readonly LevelEntry[];
+
+  // playtest a map from outside the manifest (same name replaces it); returns its index
+  addExternalLevel(x: ExternalLevel): number;
+
+  // parse a level without applying it (level select thumbnails/names)
+  loadPreview(i: number): Promise<TiledWorld>;
 
   // tile query for physics
   isSolidTile(tx: number, ty: number): boolean;
+  // narrow phase: world pixel inside a collide tile's art mask (outside the map counts as solid)
+  isSolidPixel(px: number, py: number): boolean;
+  // map property collision="pixel": bodies collide with the art, not whole tiles
+  get pixelCollision(): boolean;
+  // ramp shape of a collide tile (tile class "slope"), or null
+  slopeAt(tx: number, ty: number): TileSlope | null;
+  // collide tile of class "oneway" (jump-through platform)
+  oneWayAt(tx: number, ty: number): boolean;
+  // tile size, bounds and per-level collision options for the physics step
+  worldInfo(): WorldInfo | null;
+
+  // .world levels: stream in maps near the view (no-op for single maps)
+  streamAround(viewX: number, viewY: number, viewW: number, viewH: number): void;
 
   // level control
   loadLevel(i: number): void;
@@ -41,17 +94,30 @@ export type LevelRuntime = {
   // warm up the next level during win hold so the swap is instant
   preloadNextLevel(): void;
 
+  // dev: a Tiled file changed on disk (path from the public root); rebuilds the current
+  // level through the prepared-level path, keeping the flock where it stands if it still fits
+  hotReload(path: string): void;
+
   // called once at boot
   init(): Promise<void>;
 };
 
 export type CreateLevelRuntimeOpts = {
+  // level manifest JSON (see levelManifest.ts); else the `levels` URL list, else level1..7
+  manifestUrl?: string;
   levels?: string[];
-  startLevel?: number;
+  // appended after the manifest (?level=)
+  externalLevels?: ExternalLevel[];
+
+  // index, or picked once the level list is known (e.g. resume from a save)
+  startLevel?: number | ((levels: readonly LevelEntry[]) => number);
 
   // assets
   keyAtlasPath?: string;
 
+  // Tiled project file / objecttypes.json with class defaults for objects (optional)
+  objectTypesUrl?: string;
+
   // UI hook for loading indicator
   setUiMessage(msg: string): void;
 
@@ -63,23 +129,67 @@ export type CreateLevelRuntimeOpts = {
 
   // misc reset hook
   onResetForNewLevel(): void;
+
+  // called after a checkpoint respawn (level state is NOT reset)
+  onRespawn(): void;
+
+  // an external boot level (?level=, a drop) failed; the manifest's boot level is loaded instead
+  onBootFailed?(level: LevelEntry, err: unknown): void;
+
+  // called after a dev hot reload swapped the current level's map in place
+  onLevelReloaded(): void;
+};
+
+export type LevelKey = {
+  entity: KeyEntity;
+  group: DoorGroup;
+};
+
+type Checkpoint = {
+  id: string;
+  player: { x: number; y: number };
+  gooselings: { x: number; y: number }[];
+
+  keys: LevelKey[];
+  collected: number[]; // per door group
+  lastGroup: DoorGroup | null;
+
+  // door layers as they were: respawn puts back tiles removed since (streamed-in tiles stay)
+  layers: { live: Uint32Array; saved: Uint32Array }[];
 };
 
+// layers doors dissolve from (see doorDissolve DEFAULT_LAYERS)
+const CHECKPOINT_LAYERS = ["tile", "collide"] as const;
+
 type PreparedLevel = {
   idx: number;
   world: TiledWorld;
+  region: WorldRegion | null;
 
   // spawn-derived state
   startX: number;
   startY: number;
 
-  keysTotal: number;
-  key: KeyEntity | null;
+  keys: LevelKey[];
+  doorGroups: DoorGroup[];
   gooselings: Player[];
 };
 
+// A level URL is a single map, or a Tiled .world streamed as one region.
+async function loadLevelSource(
+  url: string,
+  loadOpts: LoadTiledOpts
+): Promise<{ world: TiledWorld; region: WorldRegion | null }> {
+  if (!isWorldUrl(url)) return { world: await loadTiled(url, loadOpts), region: null };
+  const region = await loadWorldRegion(url, loadOpts);
+  return { world: region.world, region };
+}
+
+// default gosling size; "entities" objects may override per gosling via a `scale` property
+const GOSLING_SCALE = 0.65;
+
 export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
-  const LEVELS = (
+  let LEVELS: LevelEntry[] = levelsFromUrls(
     opts.levels?.length
       ? opts.levels
       : [
@@ -91,22 +201,29 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
           "./Tiled/level6.tmx",
           "./Tiled/level7.tmx",
         ]
-  ).slice();
+  );
 
-  let levelIndex = clamp(opts.startLevel ?? 0, 0, Math.max(0, LEVELS.length - 1)) | 0;
+  let levelIndex = 0;
 
   // "visible" loading (used for boot/death/manual loads)
   let loadingLevel = false;
 
   let world: TiledWorld | null = null;
+  let region: WorldRegion | null = null;
   let player!: Player;
   const gooselings: Player[] = [];
 
   let keyAtlas: KeyAtlas | null = null;
-  let key: KeyEntity | null = null;
+  const keys: LevelKey[] = [];
+  const platforms: MovingPlatform[] = [];
+
+  let doorGroups: DoorGroup[] = [];
+  let lastGroup: DoorGroup | null = null;
+
+  let checkpoint: Checkpoint | null = null;
 
-  let keysTotal = 0;
-  let keysCollected = 0;
+  // filled at init (before the first level parses)
+  const loadOpts: LoadTiledOpts = {};
 
   // Cache spawn points for the CURRENT applied world so restart is instant.
   let curSpawns: SpawnPoint[] | null = null;
@@ -123,10 +240,64 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
     if (!world) return false;
     const { map } = world;
     if (tx < 0 || ty < 0 || tx >= map.w || ty >= map.h) return true;
-    const gidRaw = (map as any).collide[ty * map.w + tx] >>> 0;
+    const gidRaw = map.collide[ty * map.w + tx] >>> 0;
     return (gidRaw & GID_MASK) !== 0;
   }
 
+  function isSolidPixel(px: number, py: number) {
+    if (!world) return false;
+    const { map } = world;
+    const tx = Math.floor(px / map.tw);
+    const ty = Math.floor(py / map.th);
+    if (tx < 0 || ty < 0 || tx >= map.w || ty >= map.h) return true;
+    const gidRaw = map.collide[ty * map.w + tx] >>> 0;
+    return tileSolidPixel(world.tilesets, gidRaw, px - tx * map.tw, py - ty * map.th);
+  }
+
+  const pixelCollision = () => (world?.map.props["collision"] || "").trim().toLowerCase() === "pixel";
+
+  // rebuilt lazily whenever a different world is applied
+  let slopeWorld: TiledWorld | null = null;
+  let slopeOf: ReturnType<typeof createSlopeLookup> | null = null;
+
+  function slopeAt(tx: number, ty: number) {
+    if (!world) return null;
+    const { map } = world;
+    if (tx < 0 || ty < 0 || tx >= map.w || ty >= map.h) return null;
+    if (slopeWorld !== world || !slopeOf) {
+      slopeWorld = world;
+      slopeOf = createSlopeLookup(world);
+    }
+    return slopeOf(map.collide[ty * map.w + tx] >>> 0);
+  }
+
+  function oneWayAt(tx: number, ty: number) {
+    if (!world) return false;
+    const { map } = world;
+    if (tx < 0 || ty < 0 || tx >= map.w || ty >= map.h) return false;
+    const gidRaw = map.collide[ty * map.w + tx] >>> 0;
+    return gidRaw !== 0 && tileClassOf(world.tilesets, gidRaw) === TILE_CLASS_ONEWAY;
+  }
+
+  function worldInfo(): WorldInfo | null {
+    if (!world) return null;
+    const { map } = world;
+    const grav = Number(map.props["gravity"]);
+    return {
+      w: map.w * map.tw,
+      h: map.h * map.th,
+      tw: map.tw,
+      th: map.th,
+      tilesW: map.w,
+      tilesH: map.h,
+      gravScale: grav > 0 ? grav : 1,
+      solidPixel: pixelCollision() ? isSolidPixel : undefined,
+      slopeAt,
+      oneWayAt,
+      platforms,
+    };
+  }
+
   async function spawnGooselings(points: SpawnPoint[]) {
     gooselings.length = 0;
     const babies = points.filter((p) => p.kind === "gooseling");
@@ -137,7 +308,7 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
         createGooseEntity({
           x: p.x,
           y: p.y,
-          scale: 0.65,
+          scale: p.scale ?? GOSLING_SCALE,
           controllable: false,
         })
       )
@@ -178,19 +349,96 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
     }
   }
 
-  function buildKeyEntity(nextWorld: TiledWorld, points: SpawnPoint[]) {
-    if (!keyAtlas) return null;
-    const kp = points.find((s) => s.kind === "key");
-    if (!kp) return null;
+  // every key spawn, each tied to its door group (fresh counts every call)
+  function buildKeys(nextWorld: TiledWorld, points: SpawnPoint[]) {
+    const keyPoints = points.filter((s) => s.kind === "key");
+    const { groups, groupOf } = buildDoorGroups(keyPoints);
+
+    const out: LevelKey[] = [];
+    if (keyAtlas) {
+      const tw = nextWorld.map.tw;
+      const th = nextWorld.map.th;
+      for (let i = 0; i < keyPoints.length; i++) {
+        const kp = keyPoints[i];
+        const entity = createKeyEntity(keyAtlas, { x: kp.x + (tw >> 1), y: kp.y + th, scale: 1, fps: 14 });
+        out.push({ entity, group: groupOf[i] });
+      }
+    }
+
+    return { keys: out, doorGroups: groups };
+  }
+
+  function setKeys(next: { keys: LevelKey[]; doorGroups: DoorGroup[] }) {
+    keys.length = 0;
+    keys.push(...next.keys);
+    doorGroups = next.doorGroups;
+    lastGroup = null;
+    checkpoint = null;
+  }
+
+  function setPlatforms(w: TiledWorld) {
+    platforms.length = 0;
+    platforms.push(...buildPlatforms(w));
+  }
+
+  // on tiles, not mid-jump or riding a platform: a respawn there stays put
+  function standsSafely(e: Player) {
+    return e.grounded && !isOnPlatform(platforms, e);
+  }
+
+  function saveCheckpoint(id: string) {
+    if (!world) return;
+    const { map } = world;
+
+    // goslings still in the air (say, mid-jump over spikes) respawn at the goose's feet instead
+    const gooseSpot = (b: Player) => ({
+      x: Math.round(player.x + (player.w - b.w) * 0.5),
+      y: Math.round(player.y + player.h - b.h),
+    });
+
+    checkpoint = {
+      id,
+      player: { x: player.x, y: player.y },
+      gooselings: gooselings.map((b) => (standsSafely(b) ? { x: b.x, y: b.y } : gooseSpot(b))),
+      keys: keys.slice(),
+      collected: doorGroups.map((g) => g.collected | 0),
+      lastGroup,
+      layers: CHECKPOINT_LAYERS.map((n) => ({ live: map[n], saved: map[n].slice() })),
+    };
+  }
+
+  function respawnAtCheckpoint() {
+    const cp = checkpoint;
+    if (!cp || !world) return false;
+
+    const place = (e: Player, at: { x: number; y: number }) => {
+      e.x = at.x;
+      e.y = at.y;
+      e.vx = 0;
+      e.vy = 0;
+      snapToPixel(e);
+    };
+
+    place(player, cp.player);
+    for (let i = 0; i < gooselings.length && i < cp.gooselings.length; i++) place(gooselings[i], cp.gooselings[i]);
+
+    keys.length = 0;
+    keys.push(...cp.keys);
+    for (let i = 0; i < doorGroups.length; i++) doorGroups[i].collected = cp.collected[i] | 0;
+    lastGroup = cp.lastGroup;
 
-    const tw = nextWorld.map.tw;
-    const th = nextWorld.map.th;
-    return createKeyEntity(keyAtlas, { x: kp.x + (tw >> 1), y: kp.y + th, scale: 1, fps: 14 });
+    for (const { live, saved } of cp.layers) {
+      for (let i = 0; i < live.length; i++) if (live[i] === 0 && saved[i] !== 0) live[i] = saved[i];
+    }
+
+    opts.onRespawn();
+    opts.onEntitiesPlaced(player, gooselings);
+    return true;
   }
 
   async function buildPrepared(idx: number): Promise<PreparedLevel> {
-    const url = LEVELS[idx];
-    const nextWorld = await loadTiled(url);
+    const url = LEVELS[idx].map;
+    const { world: nextWorld, region: nextRegion } = await loadLevelSource(url, loadOpts);
     const sp = scanSpawnPoints(nextWorld);
 
     // player start
@@ -210,7 +458,7 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
             createGooseEntity({
               x: p.x,
               y: p.y,
-              scale: 0.65,
+              scale: p.scale ?? GOSLING_SCALE,
               controllable: false,
             })
           )
@@ -219,32 +467,49 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
 
     for (const b of babies) snapToPixel(b);
 
-    const kt = sp.filter((s) => s.kind === "key").length | 0;
-    const k = buildKeyEntity(nextWorld, sp);
+    const builtKeys = buildKeys(nextWorld, sp);
 
     return {
       idx,
       world: nextWorld,
+      region: nextRegion,
       startX,
       startY,
-      keysTotal: kt,
-      key: k,
+      keys: builtKeys.keys,
+      doorGroups: builtKeys.doorGroups,
       gooselings: babies,
     };
   }
 
-  function applyPrepared(p: PreparedLevel) {
+  // entity box is inside the map and clear of solid tiles (current world)
+  function fitsAt(e: Player) {
+    const info = worldInfo();
+    if (!info) return false;
+    if (e.x < 0 || e.y < 0 || e.x + e.w > info.w || e.y + e.h > info.h) return false;
+    return !aabbHitsTiles(e, isSolidTile, info);
+  }
+
+  // keepFlock: hot reload of the SAME level; entities stay put where the new layout allows
+  function applyPrepared(p: PreparedLevel, keepFlock = false) {
+    const oldPlayer = { x: player.x, y: player.y };
+    const oldBabies = gooselings.map((b) => ({ x: b.x, y: b.y }));
+
     world = p.world;
+    region = p.region;
     curSpawns = scanSpawnPoints(p.world);
     opts.onWorldApplied(p.world);
 
-    // counters
-    keysTotal = p.keysTotal | 0;
-    keysCollected = 0;
-
     // player (reuse the same instance)
     player.x = p.startX;
     player.y = p.startY;
+    if (keepFlock) {
+      player.x = oldPlayer.x;
+      player.y = oldPlayer.y;
+      if (!fitsAt(player)) {
+        player.x = p.startX;
+        player.y = p.startY;
+      }
+    }
     player.vx = 0;
     player.vy = 0;
     snapToPixel(player);
@@ -253,24 +518,39 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
     gooselings.length = 0;
     gooselings.push(...p.gooselings);
 
-    // swap key
-    key = p.key ?? null;
+    if (keepFlock) {
+      for (let i = 0; i < gooselings.length && i < oldBabies.length; i++) {
+        const b = gooselings[i];
+        const sx = b.x;
+        const sy = b.y;
+        b.x = oldBabies[i].x;
+        b.y = oldBabies[i].y;
+        if (!fitsAt(b)) {
+          b.x = sx;
+          b.y = sy;
+        }
+        snapToPixel(b);
+      }
+    }
+
+    // swap keys (+ their door groups)
+    setKeys(p);
+    setPlatforms(p.world);
 
     // lifecycle hooks
-    opts.onResetForNewLevel();
+    if (keepFlock) opts.onLevelReloaded();
+    else opts.onResetForNewLevel();
     opts.onEntitiesPlaced(player, gooselings);
   }
 
-  async function applyLoadedWorld(nextWorld: TiledWorld) {
+  async function applyLoadedWorld(nextWorld: TiledWorld, nextRegion: WorldRegion | null) {
     world = nextWorld;
+    region = nextRegion;
     curSpawns = scanSpawnPoints(nextWorld);
     opts.onWorldApplied(nextWorld);
 
     const sp = curSpawns;
 
-    keysTotal = sp.filter((s) => s.kind === "key").length | 0;
-    keysCollected = 0;
-
     // player start
     let startX = 24;
     let startY = 0;
@@ -289,8 +569,9 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
     // babies
     await spawnGooselings(sp);
 
-    // key entity (first key spawn)
-    key = buildKeyEntity(nextWorld, sp);
+    // key entities (every key spawn)
+    setKeys(buildKeys(nextWorld, sp));
+    setPlatforms(nextWorld);
 
     opts.onResetForNewLevel();
     opts.onEntitiesPlaced(player, gooselings);
@@ -301,10 +582,6 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
 
     const sp = curSpawns ?? (curSpawns = scanSpawnPoints(world));
 
-    // counters (restart should reset collection)
-    keysTotal = sp.filter((s) => s.kind === "key").length | 0;
-    keysCollected = 0;
-
     // player start
     let startX = 24;
     let startY = 0;
@@ -323,8 +600,9 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
     // babies: reuse entities when possible (instant)
     ensureAndResetGooselings(sp);
 
-    // key: respawn at first key spawn
-    key = buildKeyEntity(world, sp);
+    // keys: respawn all, collection reset
+    setKeys(buildKeys(world, sp));
+    setPlatforms(world);
 
     opts.onResetForNewLevel();
     opts.onEntitiesPlaced(player, gooselings);
@@ -342,6 +620,9 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
 
     const nextIdx = ((levelIndex + 1) % LEVELS.length) | 0;
 
+    // playtest maps don't chain into anything
+    if (LEVELS[levelIndex].external || LEVELS[nextIdx].external) return;
+
     if (prepared && prepared.idx === nextIdx) return;
     if (preparingIdx === nextIdx && preparingPromise) return;
 
@@ -361,6 +642,31 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
     })();
   }
 
+  function hotReload(path: string) {
+    // from now on every load asks for fresh files (a saved .png would otherwise come back decoded from cache)
+    loadOpts.bust = String(Date.now());
+
+    const abs = (u: string) => new URL(u, location.href).pathname;
+    const changed = abs(assetUrl(path));
+    const isLevelMap = LEVELS.some((l) => abs(l.map) === changed);
+
+    // a warmed-up next level may have been built from the old file (tilesets/templates: any level)
+    if (prepared && (!isLevelMap || abs(LEVELS[prepared.idx].map) === changed)) clearPrepared();
+
+    // another level's map, or a visible load in flight (it will read the new file anyway)
+    if (!world || loadingLevel) return;
+    if (isLevelMap && abs(LEVELS[levelIndex].map) !== changed) return;
+
+    const idx = levelIndex;
+    const myToken = ++loadToken;
+    buildPrepared(idx)
+      .then((p) => {
+        if (myToken !== loadToken || idx !== levelIndex) return;
+        applyPrepared(p, true);
+      })
+      .catch(console.error);
+  }
+
   function loadLevel(i: number) {
     if (!LEVELS.length) return;
 
@@ -384,12 +690,12 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
 
     (async () => {
       try {
-        const url = LEVELS[idx];
-        const nextWorld = await loadTiled(url);
+        const url = LEVELS[idx].map;
+        const next = await loadLevelSource(url, loadOpts);
 
         if (myToken !== loadToken) return;
 
-        await applyLoadedWorld(nextWorld);
+        await applyLoadedWorld(next.world, next.region);
       } catch (err) {
         if (myToken !== loadToken) return;
         console.error(err);
@@ -401,32 +707,82 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
     })();
   }
 
+  function addExternalLevel(x: ExternalLevel) {
+    const e = externalLevelEntry(x);
+    const i = LEVELS.findIndex((l) => l.id === e.id);
+    if (i < 0) return LEVELS.push(e) - 1;
+
+    // dropped again: new blob URLs, so anything built from the old ones is stale
+    const old = virtualBundleOf(LEVELS[i].map);
+    LEVELS[i] = e;
+    if (prepared?.idx === i || preparingIdx === i) clearPrepared();
+
+    // the old files go once no level points into them (one drop can hold several maps)
+    if (old && !LEVELS.some((l) => virtualBundleOf(l.map) === old)) releaseVirtualBundle(old);
+    return i;
+  }
+
   function nextLevel() {
     if (!LEVELS.length) return;
     loadLevel(((levelIndex + 1) % LEVELS.length) | 0);
   }
 
+  function pickStart(levels: readonly LevelEntry[]) {
+    const start = typeof opts.startLevel === "function" ? opts.startLevel(levels) : (opts.startLevel ?? 0);
+    return clamp(start | 0, 0, Math.max(0, levels.length - 1)) | 0;
+  }
+
+  // a broken playtest map must not take the whole game down: report it and boot the manifest instead
+  async function loadBootLevel() {
+    const level = LEVELS[levelIndex];
+    try {
+      return await loadLevelSource(level.map, loadOpts);
+    } catch (err) {
+      // external levels are appended after the manifest, so its indices are unchanged
+      const manifest = LEVELS.filter((l) => !l.external);
+      if (!level.external || !manifest.length) throw err;
+
+      console.error(err);
+      levelIndex = pickStart(manifest);
+      opts.onBootFailed?.(level, err);
+      return loadLevelSource(LEVELS[levelIndex].map, loadOpts);
+    }
+  }
+
   async function init() {
-    const [p, firstWorld, ka] = await Promise.all([
+    // a broken manifest must fail loudly (mod packs ship their own)
+    if (opts.manifestUrl) LEVELS = await loadLevelManifest(opts.manifestUrl);
+    for (const x of opts.externalLevels ?? []) addExternalLevel(x);
+
+    levelIndex = pickStart(LEVELS);
+
+    if (opts.objectTypesUrl) {
+      loadOpts.objectTypes = await loadTiledObjectTypes(opts.objectTypesUrl).catch((err) => {
+        console.error(err);
+        return null;
+      });
+    }
+
+    const [p, first, ka] = await Promise.all([
       createPlayer({ x: 24, y: 24 }),
-      loadTiled(LEVELS[levelIndex]),
+      loadBootLevel(),
       loadKeyAtlas(assetUrl((opts.keyAtlasPath ?? "Key/").replace(/^\/+/, ""))).catch(() => null),
     ]);
 
     player = p;
     keyAtlas = ka;
 
-    await applyLoadedWorld(firstWorld);
+    await applyLoadedWorld(first.world, first.region);
   }
 
-  function incKeysCollected() {
-    keysCollected = (keysCollected + 1) | 0;
-  }
+  function collectKey(k: LevelKey) {
+    const i = keys.indexOf(k);
+    if (i < 0) return null;
+    keys.splice(i, 1);
 
-  function consumeKey() {
-    if (!key) return false;
-    key = null;
-    return true;
+    k.group.collected = (k.group.collected + 1) | 0;
+    lastGroup = k.group;
+    return k.group;
   }
 
   return {
@@ -439,19 +795,28 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
     get gooselings() {
       return gooselings;
     },
-    get key() {
-      return key;
+    get keys() {
+      return keys;
+    },
+    get platforms() {
+      return platforms;
     },
 
     get keysTotal() {
-      return keysTotal | 0;
+      return (hudDoorGroup(doorGroups, lastGroup)?.total ?? 0) | 0;
     },
     get keysCollected() {
-      return keysCollected | 0;
+      return (hudDoorGroup(doorGroups, lastGroup)?.collected ?? 0) | 0;
     },
-    incKeysCollected,
 
-    consumeKey,
+    collectKey,
+
+    get checkpointId() {
+      return checkpoint?.id ?? null;
+    },
+    standsSafely,
+    saveCheckpoint,
+    respawnAtCheckpoint,
 
     get loading() {
       return loadingLevel;
@@ -462,13 +827,32 @@ export function createLevelRuntime(opts: CreateLevelRuntimeOpts): LevelRuntime {
     get levelCount() {
       return LEVELS.length | 0;
     },
+    get level() {
+      return LEVELS[levelIndex];
+    },
+    get levels() {
+      return LEVELS;
+    },
+    addExternalLevel,
+    loadPreview: async (i) => (await loadLevelSource(LEVELS[i | 0].map, loadOpts)).world,
 
     isSolidTile,
+    isSolidPixel,
+    get pixelCollision() {
+      return pixelCollision();
+    },
+    slopeAt,
+    oneWayAt,
+    worldInfo,
+    streamAround(viewX, viewY, viewW, viewH) {
+      region?.stream(viewX, viewY, viewW, viewH);
+    },
 
     loadLevel,
     nextLevel,
     restartLevel,
     preloadNextLevel,
+    hotReload,
 
     init,
   };
@@ -0,0 +1,188 @@
+// src/game/platforms.ts
+// Moving platforms: "entities" objects of type "platform" (a rect, or a tile object whose tile is
+// repeated across it) that ride a path. Object properties:
+//   path    the path object: id (Tiled "object" property) or name of a polyline/polygon.
+//           The platform keeps its offset from the path's first point. No path = it stays put.
+//   speed   px/s along the path (default 30)
+//   mode    pingpong (default) | loop; loop closes an open path back to its start, polygons always loop
+//   pause   seconds to wait at every path point (default 0)
+// Platforms are jump-through (solid from above only, like "oneway" tiles) and carry whatever stands
+// on them. They move in whole pixels so riders, which snap to pixels, move with them exactly.
+import { drawTile, type TiledObject, type TiledWorld } from "../tiled";
+import { findObjectByRef, objectRect, propNum, type Pt } from "../tiled/objects";
+import { aabbHitsTiles, type PlatformBox } from "../playerPhysics";
+import type { Player, SolidTileQuery, WorldInfo } from "../player";
+import { ENTITY_TYPE_PLATFORM } from "./constants";
+import { ENTITY_LAYER } from "./spawn";
+import type { Cam } from "./types";
+
+export type MovingPlatform = PlatformBox & {
+  // whole pixels moved by the last update
+  dx: number;
+  dy: number;
+
+  update(dt: number): void;
+  draw(ctx: CanvasRenderingContext2D, world: TiledWorld, cam: Cam, t: number): void;
+};
+
+const DEFAULT_SPEED = 30;
+
+function createPlatform(o: TiledObject, path: Pt[], loop: boolean): MovingPlatform {
+  const r = objectRect(o);
+  const speed = Math.max(0, propNum(o, "speed", DEFAULT_SPEED));
+  const pause = Math.max(0, propNum(o, "pause", 0));
+
+  // platform position = path point + offset (x/y keep it rounded: that's what's drawn and collides)
+  const offX = r.x - (path[0]?.x ?? r.x);
+  const offY = r.y - (path[0]?.y ?? r.y);
+
+  let at = 0; // index of the point we're leaving
+  let dir = 1; // pingpong direction through the points
+  let along = 0; // px travelled on the current segment
+  let wait = 0;
+
+  const n = path.length;
+  let pathLen = 0;
+  for (let i = 1; i < n; i++) pathLen += Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y);
+  const nextIndex = (i: number) => (loop ? (i + 1) % n : i + dir);
+
+  const p: MovingPlatform = {
+    x: Math.round(r.x),
+    y: Math.round(r.y),
+    w: Math.max(1, Math.round(r.w)),
+    h: Math.max(1, Math.round(r.h)),
+    dx: 0,
+    dy: 0,
+
+    update(dt: number) {
+      p.dx = p.dy = 0;
+      if (pathLen <= 0 || speed <= 0) return;
+
+      let d = speed * dt;
+      while (d > 0) {
+        if (wait > 0) {
+          // pauses eat time, not distance: convert what's left back to seconds
+          const sec = d / speed;
+          if (sec <= wait) {
+            wait -= sec;
+            d = 0;
+            break;
+          }
+          d -= wait * speed;
+          wait = 0;
+        }
+
+        const a = path[at];
+        const b = path[nextIndex(at)];
+        const len = Math.hypot(b.x - a.x, b.y - a.y);
+
+        if (along + d < len) {
+          along += d;
+          d = 0;
+        } else {
+          // reached b
+          d -= len - along;
+          along = 0;
+          at = nextIndex(at);
+          if (!loop && (at === 0 || at === n - 1)) dir = -dir;
+          wait = pause;
+        }
+      }
+
+      const a = path[at];
+      const b = path[nextIndex(at)];
+      const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+      const nx = Math.round(a.x + ((b.x - a.x) * along) / len + offX);
+      const ny = Math.round(a.y + ((b.y - a.y) * along) / len + offY);
+      p.dx = nx - p.x;
+      p.dy = ny - p.y;
+      p.x = nx;
+      p.y = ny;
+    },
+
+    draw(ctx: CanvasRenderingContext2D, world: TiledWorld, cam: Cam, t: number) {
+      const x = (p.x - Math.floor(cam.x)) | 0;
+      const y = (p.y - Math.floor(cam.y)) | 0;
+
+      if (o.gid) {
+        const { tw, th } = world.map;
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(x, y, p.w, p.h);
+        ctx.clip();
+        for (let yy = 0; yy < p.h; yy += th) {
+          for (let xx = 0; xx < p.w; xx += tw) drawTile(ctx, world.tilesets, o.gid, x + xx, y + yy, t);
+        }
+        ctx.restore();
+        return;
+      }
+
+      // no art: white slab with a hollow middle
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(x, y, p.w, p.h);
+      if (p.w > 2 && p.h > 3) {
+        ctx.fillStyle = "#000";
+        ctx.fillRect(x + 1, y + 2, p.w - 2, p.h - 3);
+      }
+    },
+  };
+
+  return p;
+}
+
+/** Every platform object in the entities layer, at its start position. */
+export function buildPlatforms(world: TiledWorld): MovingPlatform[] {
+  const groups = world.map.objects;
+  const out: MovingPlatform[] = [];
+
+  for (const o of groups[ENTITY_LAYER] ?? []) {
+    const type = (o.type || o.props["type"] || "").trim().toLowerCase();
+    if (type !== ENTITY_TYPE_PLATFORM || o.w <= 0 || o.h <= 0) continue;
+
+    const ref = findObjectByRef(groups, (o.props["path"] || "").trim());
+    const isPath = ref && (ref.shape === "polyline" || ref.shape === "polygon") && ref.pts.length >= 2;
+    const path = isPath ? ref.pts.map((q) => ({ x: ref.x + q.x, y: ref.y + q.y })) : [];
+
+    const mode = (o.props["mode"] || "").trim().toLowerCase();
+    out.push(createPlatform(o, path, mode === "loop" || ref?.shape === "polygon"));
+  }
+
+  return out;
+}
+
+/** Standing on a platform right now (it may carry the body somewhere else). */
+export function isOnPlatform(platforms: readonly MovingPlatform[], e: Player) {
+  const feet = Math.round(e.y + e.h);
+  return platforms.some((p) => feet === p.y && e.x + e.w > p.x && e.x < p.x + p.w);
+}
+
+/**
+ * Move everything standing on a platform (at its position before this update) along with it.
+ * Tiles still block: a rider pushed into a wall stays behind (and falls off eventually).
+ */
+export function carryRiders(
+  platforms: readonly MovingPlatform[],
+  riders: readonly Player[],
+  solid: SolidTileQuery,
+  world: WorldInfo
+) {
+  const carried = new Set<Player>();
+
+  for (const p of platforms) {
+    if (!p.dx && !p.dy) continue;
+    const top = p.y - p.dy;
+    const left = p.x - p.dx;
+
+    for (const e of riders) {
+      if (carried.has(e) || e.vy < 0) continue;
+
+      // feet on the old top (riders snap to whole pixels), overlapping it sideways
+      if (Math.round(e.y + e.h) !== top) continue;
+      if (e.x + e.w <= left || e.x >= left + p.w) continue;
+
+      carried.add(e);
+      if (p.dx && !aabbHitsTiles({ x: e.x + p.dx, y: e.y, w: e.w, h: e.h }, solid, world)) e.x += p.dx;
+      if (p.dy && !aabbHitsTiles({ x: e.x, y: e.y + p.dy, w: e.w, h: e.h }, solid, world)) e.y += p.dy;
+    }
+  }
+}
@@ -0,0 +1,88 @@
+// src/game/slopes.ts
+// Ramps: collide-layer tiles of class "slope". Shape from tile properties, in px measured from
+// the solid side:
+//   left / right   solid depth at the tile's left and right edge
+//                  (45° "/" = 0 and 8 on 8px tiles; a 22.5° pair = 0/4 then 4/8)
+//   ceiling=true   hangs from the top edge instead of standing on the bottom
+// Without left/right the shape is read off the tile's art mask. Flipping a tile in Tiled mirrors
+// the ramp; rotated (diagonal-flipped) ramps aren't supported and collide as full tiles.
+import {
+  FLIP_D,
+  FLIP_H,
+  FLIP_V,
+  GID_MASK,
+  tileClassOf,
+  tilePropsOf,
+  tilesetForGid,
+  type TileMask,
+  type TiledWorld,
+} from "../tiled";
+import type { TileSlope } from "../playerPhysics";
+import { TILE_CLASS_SLOPE } from "./constants";
+
+const bit = (m: TileMask, u: number, v: number) => ((m.rows[v * m.stride + (u >>> 5)] >>> (u & 31)) & 1) !== 0;
+
+// solid run from the bottom (or top) edge of column u
+function columnDepth(m: TileMask, u: number, fromTop: boolean) {
+  let d = 0;
+  while (d < m.h && bit(m, u, fromTop ? d : m.h - 1 - d)) d++;
+  return d;
+}
+
+// Edge depths from the art: a line through the first and last column's solid runs,
+// extended half a pixel to the tile edges and snapped to half pixels.
+function slopeFromMask(m: TileMask): TileSlope | null {
+  let bottom = 0;
+  let top = 0;
+  for (let u = 0; u < m.w; u++) {
+    if (bit(m, u, m.h - 1)) bottom++;
+    if (bit(m, u, 0)) top++;
+  }
+  if (!bottom && !top) return null;
+
+  const ceil = top > bottom;
+  const d0 = columnDepth(m, 0, ceil);
+  const d1 = columnDepth(m, m.w - 1, ceil);
+  const k = m.w > 1 ? (d1 - d0) / (m.w - 1) : 0;
+
+  const snap = (v: number) => Math.max(0, Math.min(m.h, Math.round(v * 2) / 2));
+  return { ceil, left: snap(d0 - k * 0.5), right: snap(d1 + k * 0.5) };
+}
+
+function slopeFromProps(props: Record<string, string> | null): TileSlope | null {
+  if (!props || props["left"] == null || props["right"] == null) return null;
+  const left = Number(props["left"]);
+  const right = Number(props["right"]);
+  if (!Number.isFinite(left) || !Number.isFinite(right)) return null;
+  return { ceil: (props["ceiling"] || "").trim().toLowerCase() === "true", left, right };
+}
+
+/** gid (with flip flags) -> ramp shape, or null for ordinary tiles; memoized per gid. */
+export function createSlopeLookup(world: TiledWorld) {
+  const cache = new Map<number, TileSlope | null>();
+
+  function build(gidRaw: number): TileSlope | null {
+    const { tilesets } = world;
+    if (tileClassOf(tilesets, gidRaw) !== TILE_CLASS_SLOPE) return null;
+    if (gidRaw & FLIP_D) return null;
+
+    const ts = tilesetForGid(tilesets, gidRaw)!;
+    const local = (((gidRaw & GID_MASK) >>> 0) - ts.firstgid) | 0;
+    const s = slopeFromProps(tilePropsOf(tilesets, gidRaw)) ?? slopeFromMask(ts.masks[local]);
+    if (!s) return null;
+
+    return {
+      ceil: gidRaw & FLIP_V ? !s.ceil : s.ceil,
+      left: gidRaw & FLIP_H ? s.right : s.left,
+      right: gidRaw & FLIP_H ? s.left : s.right,
+    };
+  }
+
+  return (gidRaw: number): TileSlope | null => {
+    gidRaw >>>= 0;
+    if (!(gidRaw & GID_MASK)) return null;
+    let s = cache.get(gidRaw);
+    if (s === undefined) cache.set(gidRaw, (s = build(gidRaw)));
+    return s;
+  };
+}
@@ -1,23 +1,62 @@
 // src/game/spawn.ts
-import { type TiledWorld, GID_MASK } from "../tiled";
+import { type TiledObject, type TiledWorld, GID_MASK, tilePropsOf } from "../tiled";
 
 export type SpawnKind = "goose" | "gooseling" | "key";
-export type SpawnPoint = { kind: SpawnKind; x: number; y: number };
 
-function spawnKindFromGid(gidMasked: number, firstgid: number): SpawnKind | null {
-  if (gidMasked === 1) return "goose";
-  if (gidMasked === 2) return "gooseling";
+export type SpawnPoint = {
+  kind: SpawnKind;
 
-  if (gidMasked === (firstgid >>> 0)) return "goose"; // index 1
-  if (gidMasked === ((firstgid + 1) >>> 0)) return "gooseling"; // index 2
-  if (gidMasked === ((firstgid + 8) >>> 0)) return "key"; // index 9
+  // top-left of the spawn cell in world pixels (tile spawns: the tile's corner)
+  x: number;
+  y: number;
 
-  return null;
+  // object-layer extras ("entities" layer); tile spawns leave id/scale unset
+  id?: string;
+  scale?: number;
+  // object props, or the spawn tile's TSX props (e.g. a key's door `color`)
+  props?: Record<string, string>;
+};
+
+// Object layer that carries typed spawns (alongside the legacy "spawns" tile layer)
+export const ENTITY_LAYER = "entities";
+
+const SPAWN_KINDS: readonly SpawnKind[] = ["goose", "gooseling", "key"];
+
+// Spawn tiles declare `spawn=<kind>` as a TSX tile property.
+function spawnKindFromProps(props: Record<string, string> | null): SpawnKind | null {
+  const k = (props?.["spawn"] || "").trim() as SpawnKind;
+  return SPAWN_KINDS.includes(k) ? k : null;
+}
+
+// "gosling" is accepted as a designer-friendly alias.
+function spawnKindFromType(type: string): SpawnKind | null {
+  const k = type.trim().toLowerCase();
+  if (k === "gosling") return "gooseling";
+  return SPAWN_KINDS.includes(k as SpawnKind) ? (k as SpawnKind) : null;
+}
+
+function spawnFromObject(o: TiledObject): SpawnPoint | null {
+  const kind = spawnKindFromType(o.type || o.props["type"] || o.name);
+  if (!kind) return null;
+
+  // Tiled anchors tile objects at bottom-left; everything else at top-left.
+  const x = o.x;
+  const y = o.gid ? o.y - o.h : o.y;
+
+  const sp: SpawnPoint = { kind, x, y, props: o.props };
+
+  const id = (o.props["id"] || "").trim();
+  if (id) sp.id = id;
+
+  const scale = Number(o.props["scale"]);
+  if (o.props["scale"] && Number.isFinite(scale) && scale > 0) sp.scale = scale;
+
+  return sp;
 }
 
 export function scanSpawnPoints(w: TiledWorld): SpawnPoint[] {
   const out: SpawnPoint[] = [];
-  const { map, ts } = w;
+  const { map, tilesets } = w;
   const L = (map as any).spawns as Uint32Array;
 
   for (let i = 0; i < L.length; i++) {
@@ -25,7 +64,8 @@ export function scanSpawnPoints(w: TiledWorld): SpawnPoint[] {
     const gid = (gidRaw & GID_MASK) >>> 0;
     if (!gid) continue;
 
-    const kind = spawnKindFromGid(gid, ts.firstgid >>> 0);
+    const tileProps = tilePropsOf(tilesets, gidRaw);
+    const kind = spawnKindFromProps(tileProps);
     if (!kind) continue;
 
     const tx = (i % map.w) | 0;
@@ -35,8 +75,15 @@ export function scanSpawnPoints(w: TiledWorld): SpawnPoint[] {
       kind,
       x: tx * map.tw,
       y: ty * map.th,
+      props: tileProps ?? undefined,
     });
   }
 
+  // Object-layer spawns follow tile spawns so old maps keep their ordering.
+  for (const o of map.objects[ENTITY_LAYER] ?? []) {
+    const sp = spawnFromObject(o);
+    if (sp) out.push(sp);
+  }
+
   return out;
 }
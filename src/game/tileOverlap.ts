@@ -1,22 +1,24 @@
 // src/game/tileOverlap.ts
-import { type TiledWorld, GID_MASK } from "../tiled";
+import { type TiledWorld, type TileSet, localIndexIn, tileClassOf } from "../tiled";
 
 export function aabbOverlapsTileLocalIndex(
   w: TiledWorld,
   aabb: { x: number; y: number; w: number; h: number },
   localIndex: number,
-  layers: string[] = ["tile", "collide"]
+  layers: string[] = ["tile", "collide"],
+  tileset: TileSet = w.ts
 ) {
-  return aabbOverlapsAnyTileLocalIndex(w, aabb, [localIndex], layers);
+  return aabbOverlapsAnyTileLocalIndex(w, aabb, [localIndex], layers, tileset);
 }
 
 export function aabbOverlapsAnyTileLocalIndex(
   w: TiledWorld,
   aabb: { x: number; y: number; w: number; h: number },
   localIndexes: number[],
-  layers: string[] = ["tile", "collide"]
+  layers: string[] = ["tile", "collide"],
+  tileset: TileSet = w.ts
 ) {
-  const { map, ts } = w;
+  const { map } = w;
   const tw = map.tw | 0;
   const th = map.th | 0;
 
@@ -25,8 +27,6 @@ export function aabbOverlapsAnyTileLocalIndex(
   const x1 = ((aabb.x + aabb.w - 1) / tw) | 0;
   const y1 = ((aabb.y + aabb.h - 1) / th) | 0;
 
-  const first = ts.firstgid >>> 0;
-
   // tiny fast set: local indexes are small ints
   // (avoid Set alloc in hot path)
   const L0 = localIndexes[0] | 0;
@@ -44,12 +44,9 @@ export function aabbOverlapsAnyTileLocalIndex(
       for (let tx = x0; tx <= x1; tx++) {
         if (tx < 0 || tx >= map.w) continue;
 
-        const gidRaw = L[row + tx] >>> 0;
-        const gid = (gidRaw & GID_MASK) >>> 0;
-        if (!gid) continue;
-
-        // tileset-local index is 1-based
-        const li = ((gid - first + 1) | 0);
+        // tileset-local index is 1-based (0 => empty or another tileset's gid)
+        const li = localIndexIn(tileset, L[row + tx] >>> 0);
+        if (!li) continue;
 
         if (li === L0 || li === L1 || li === L2) return true;
       }
@@ -58,3 +55,39 @@ export function aabbOverlapsAnyTileLocalIndex(
 
   return false;
 }
+
+// Class-driven query: matches tiles whose TSX/TSJ "type" is `tileClass`, in any tileset.
+export function aabbOverlapsTileClass(
+  w: TiledWorld,
+  aabb: { x: number; y: number; w: number; h: number },
+  tileClass: string,
+  layers: string[] = ["tile", "collide"]
+) {
+  const { map, tilesets } = w;
+  const tw = map.tw | 0;
+  const th = map.th | 0;
+
+  const x0 = (aabb.x / tw) | 0;
+  const y0 = (aabb.y / th) | 0;
+  const x1 = ((aabb.x + aabb.w - 1) / tw) | 0;
+  const y1 = ((aabb.y + aabb.h - 1) / th) | 0;
+
+  for (const layerName of layers) {
+    const L = (map as any)[layerName] as Uint32Array | undefined;
+    if (!L) continue;
+
+    for (let ty = y0; ty <= y1; ty++) {
+      if (ty < 0 || ty >= map.h) continue;
+      const row = ty * map.w;
+
+      for (let tx = x0; tx <= x1; tx++) {
+        if (tx < 0 || tx >= map.w) continue;
+
+        const gidRaw = L[row + tx] >>> 0;
+        if (gidRaw && tileClassOf(tilesets, gidRaw) === tileClass) return true;
+      }
+    }
+  }
+
+  return false;
+}
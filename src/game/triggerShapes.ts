@@ -0,0 +1,156 @@
+// src/game/triggerShapes.ts
+// Entity AABB vs ui trigger shape (polygon / thick polyline / ellipse / point circle / rect).
+import type { UiTrigger } from "../tiled";
+
+type Aabb = { x: number; y: number; w: number; h: number };
+
+function aabbOverlapsAabb(a: Aabb, b: Aabb) {
+  return a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+}
+
+// standard ray-cast point-in-poly
+function pointInPoly(px: number, py: number, pts: { x: number; y: number }[]) {
+  let inside = false;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const xi = pts[i].x,
+      yi = pts[i].y;
+    const xj = pts[j].x,
+      yj = pts[j].y;
+
+    const intersect =
+      yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi + 1e-12) + xi;
+    if (intersect) inside = !inside;
+  }
+  return inside;
+}
+
+// AABB vs polygon overlap (exact):
+// - quick AABB reject
+// - if any AABB corner inside poly => overlap
+// - if any poly vertex inside AABB => overlap
+// - if any poly edge crosses the AABB => overlap (thin diagonals, L-shapes)
+function aabbOverlapsPoly(a: Aabb, pts: { x: number; y: number }[], polyAabb: Aabb) {
+  if (!aabbOverlapsAabb(a, polyAabb)) return false;
+
+  const x0 = a.x,
+    y0 = a.y;
+  const x1 = a.x + a.w,
+    y1 = a.y + a.h;
+
+  // AABB corners + center
+  const cx = (x0 + x1) * 0.5;
+  const cy = (y0 + y1) * 0.5;
+
+  if (pointInPoly(x0, y0, pts)) return true;
+  if (pointInPoly(x1, y0, pts)) return true;
+  if (pointInPoly(x0, y1, pts)) return true;
+  if (pointInPoly(x1, y1, pts)) return true;
+  if (pointInPoly(cx, cy, pts)) return true;
+
+  // any vertex inside AABB
+  for (let i = 0; i < pts.length; i++) {
+    const p = pts[i];
+    if (p.x >= x0 && p.x <= x1 && p.y >= y0 && p.y <= y1) return true;
+  }
+
+  // any edge through the AABB
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    if (segmentHitsAabb(pts[j].x, pts[j].y, pts[i].x, pts[i].y, a)) return true;
+  }
+
+  return false;
+}
+
+// AABB vs circle: closest point of the box to the centre
+function aabbOverlapsCircle(a: Aabb, cx: number, cy: number, r: number) {
+  const nx = Math.max(a.x, Math.min(cx, a.x + a.w));
+  const ny = Math.max(a.y, Math.min(cy, a.y + a.h));
+  const dx = cx - nx,
+    dy = cy - ny;
+  return dx * dx + dy * dy <= r * r;
+}
+
+// AABB vs axis-aligned ellipse: scale both so the ellipse becomes the unit circle
+function aabbOverlapsEllipse(a: Aabb, e: Aabb) {
+  if (!aabbOverlapsAabb(a, e)) return false;
+
+  const rx = e.w * 0.5,
+    ry = e.h * 0.5;
+  const cx = e.x + rx,
+    cy = e.y + ry;
+
+  const u = { x: (a.x - cx) / rx, y: (a.y - cy) / ry, w: a.w / rx, h: a.h / ry };
+  return aabbOverlapsCircle(u, 0, 0, 1);
+}
+
+// segment crosses the box (Liang-Barsky clip)
+function segmentHitsAabb(x0: number, y0: number, x1: number, y1: number, a: Aabb) {
+  let t0 = 0,
+    t1 = 1;
+  const dx = x1 - x0,
+    dy = y1 - y0;
+
+  const p = [-dx, dx, -dy, dy];
+  const q = [x0 - a.x, a.x + a.w - x0, y0 - a.y, a.y + a.h - y0];
+
+  for (let i = 0; i < 4; i++) {
+    if (p[i] === 0) {
+      if (q[i] < 0) return false;
+      continue;
+    }
+    const t = q[i] / p[i];
+    if (p[i] < 0) t0 = Math.max(t0, t);
+    else t1 = Math.min(t1, t);
+    if (t0 > t1) return false;
+  }
+  return true;
+}
+
+function pointSegmentDist2(px: number, py: number, x0: number, y0: number, x1: number, y1: number) {
+  const dx = x1 - x0,
+    dy = y1 - y0;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((px - x0) * dx + (py - y0) * dy) / len2)) : 0;
+  const ex = x0 + dx * t - px,
+    ey = y0 + dy * t - py;
+  return ex * ex + ey * ey;
+}
+
+// AABB vs polyline of thickness 2r: for convex shapes that don't cross, the closest pair
+// always involves a segment endpoint or a box corner.
+function aabbOverlapsThickPolyline(a: Aabb, pts: { x: number; y: number }[], r: number, bounds: Aabb) {
+  if (!aabbOverlapsAabb(a, bounds)) return false;
+
+  const r2 = r * r;
+  const corners = [
+    [a.x, a.y],
+    [a.x + a.w, a.y],
+    [a.x, a.y + a.h],
+    [a.x + a.w, a.y + a.h],
+  ];
+
+  for (let i = 0; i + 1 < pts.length; i++) {
+    const p = pts[i],
+      q = pts[i + 1];
+
+    if (segmentHitsAabb(p.x, p.y, q.x, q.y, a)) return true;
+    if (aabbOverlapsCircle(a, p.x, p.y, r) || aabbOverlapsCircle(a, q.x, q.y, r)) return true;
+    for (const [cx, cy] of corners) if (pointSegmentDist2(cx, cy, p.x, p.y, q.x, q.y) <= r2) return true;
+  }
+  return false;
+}
+
+export function aabbOverlapsTrigger(a: Aabb, tr: UiTrigger) {
+  switch (tr.shape) {
+    case "polygon":
+      return aabbOverlapsPoly(a, tr.pts, tr.aabb);
+    case "polyline":
+      return aabbOverlapsThickPolyline(a, tr.pts, tr.r, tr.aabb);
+    case "ellipse":
+      return aabbOverlapsEllipse(a, tr.aabb);
+    case "point":
+      return aabbOverlapsCircle(a, tr.aabb.x + tr.r, tr.aabb.y + tr.r, tr.r);
+    default:
+      return aabbOverlapsAabb(a, tr.aabb);
+  }
+}
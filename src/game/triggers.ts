@@ -0,0 +1,138 @@
+// src/game/triggers.ts
+// Scripted "ui" layer triggers. Every trigger object may carry (Tiled custom properties):
+//   msg        text; shown while any entity overlaps (or for msgSec after firing, if set)
+//   msgSec     > 0 turns msg into a one-shot message with that timeout
+//   on         enter (default) | exit | stay — when the actions below fire
+//   once       true => fire only the first time per level attempt
+//   sfx        sound name to play (see audioRig)
+//   camera     name of an object to pan the camera to, held for cameraSec (default 1.5)
+//   door       name of an object whose rect bounds the door tiles to open ("*" = every door)
+//   music      asset path of the normal track to switch to
+import type { Player } from "../player";
+import type { TiledWorld, UiTrigger } from "../tiled";
+import { findObjectByName, objectRect } from "../tiled/objects";
+import { entityCollider } from "./colliders";
+import { aabbOverlapsTrigger } from "./triggerShapes";
+
+type Rect = { x: number; y: number; w: number; h: number };
+
+export type TriggerActionHooks = {
+  playSfx(name: string): void;
+  lookAt(x: number, y: number, holdSec: number): void;
+  // region in world pixels, or null for every door tile
+  openDoors(region: Rect | null): void;
+  setMusic(track: string): void;
+};
+
+// entered/fired state at a checkpoint (opaque to callers)
+export type TriggerSnapshot = { readonly states: ReadonlyMap<UiTrigger, Readonly<TriggerState>> };
+
+export type TriggerSystem = {
+  /** Forget entered/fired state (new level or restart). */
+  reset(): void;
+
+  /** Entered/fired state as of now (checkpoints). */
+  snapshot(): TriggerSnapshot;
+  /** Back to a snapshot (null = reset): what fired since can fire again, like the doors it opened. */
+  restore(s: TriggerSnapshot | null): void;
+
+  /** Run edges + actions; returns the message to show this frame ("" = none). */
+  update(dt: number, world: TiledWorld, entities: Player[]): string;
+};
+
+const CAMERA_HOLD_SEC = 1.5;
+
+type TriggerState = { inside: boolean; fired: boolean };
+
+const propNum = (v: string | undefined, def: number) => (v != null && Number.isFinite(Number(v)) ? Number(v) : def);
+
+export function createTriggerSystem(hooks: TriggerActionHooks): TriggerSystem {
+  // keyed by trigger identity: streamed .world maps append triggers mid-level
+  const states = new Map<UiTrigger, TriggerState>();
+
+  let timedMsg = "";
+  let timedSec = 0;
+
+  function reset() {
+    states.clear();
+    timedMsg = "";
+    timedSec = 0;
+  }
+
+  function snapshot(): TriggerSnapshot {
+    const copy = new Map<UiTrigger, TriggerState>();
+    for (const [tr, st] of states) copy.set(tr, { ...st });
+    return { states: copy };
+  }
+
+  function restore(s: TriggerSnapshot | null) {
+    reset();
+    for (const [tr, st] of s?.states ?? []) states.set(tr, { ...st });
+  }
+
+  function fire(tr: UiTrigger, world: TiledWorld) {
+    const p = tr.props;
+
+    const msgSec = propNum(p["msgSec"], 0);
+    if (tr.msg && msgSec > 0) {
+      timedMsg = tr.msg;
+      timedSec = msgSec;
+    }
+
+    const sfx = (p["sfx"] || "").trim();
+    if (sfx) hooks.playSfx(sfx);
+
+    const music = (p["music"] || "").trim();
+    if (music) hooks.setMusic(music);
+
+    const camName = (p["camera"] || "").trim();
+    const camObj = camName ? findObjectByName(world.map.objects, camName) : null;
+    if (camObj) {
+      const r = objectRect(camObj);
+      hooks.lookAt(r.x + r.w * 0.5, r.y + r.h * 0.5, propNum(p["cameraSec"], CAMERA_HOLD_SEC));
+    }
+
+    const door = (p["door"] || "").trim();
+    if (door === "*") hooks.openDoors(null);
+    else if (door) {
+      const o = findObjectByName(world.map.objects, door);
+      if (o) hooks.openDoors(objectRect(o));
+    }
+  }
+
+  function update(dt: number, world: TiledWorld, entities: Player[]) {
+    if (timedSec > 0) timedSec = Math.max(0, timedSec - dt);
+
+    let msg = "";
+    const triggers = world.map.ui;
+
+    // map order; first overlapping "while inside" message wins (stable + predictable)
+    for (let i = 0; i < triggers.length; i++) {
+      const tr = triggers[i];
+
+      let inside = false;
+      for (let j = 0; j < entities.length && !inside; j++) {
+        inside = aabbOverlapsTrigger(entityCollider(entities[j]), tr);
+      }
+
+      let st = states.get(tr);
+      if (!st) states.set(tr, (st = { inside: false, fired: false }));
+
+      const on = (tr.props["on"] || "enter").trim();
+      const edge = on === "exit" ? st.inside && !inside : on === "stay" ? inside : inside && !st.inside;
+      st.inside = inside;
+
+      if (edge && !(tr.props["once"] === "true" && st.fired)) {
+        st.fired = true;
+        fire(tr, world);
+      }
+
+      if (inside && !msg && tr.msg && !(propNum(tr.props["msgSec"], 0) > 0)) msg = tr.msg;
+    }
+
+    // a one-shot message outranks the "while inside" ones until it times out
+    return timedSec > 0 ? timedMsg : msg;
+  }
+
+  return { reset, snapshot, restore, update };
+}
@@ -0,0 +1,199 @@
+// src/game/worldRegion.ts
+// A Tiled .world played as ONE TiledWorld: the grid is sized to the whole world up front,
+// the start map is stamped in immediately and neighbours are streamed in as the camera
+// nears them, so the goose walks across map seams like any other tile edge.
+//
+// Gids are remapped into one merged tileset list (deduped by image + tile size).
+// Spawns are scanned when the level starts, so entities come from the start map only;
+// streamed maps contribute tiles, ui triggers, objects and image layers.
+import {
+  GID_MASK,
+  loadTiled,
+  loadTiledWorldFile,
+  tilesetForGid,
+  type LoadTiledOpts,
+  type TiledMap,
+  type TiledWorld,
+  type TileSet,
+  type WorldMapRef,
+} from "../tiled";
+import { offsetImageLayers, offsetObjects, offsetUiTriggers } from "../tiled/objects";
+
+export type WorldRegion = {
+  readonly world: TiledWorld;
+
+  // start loading every map within STREAM_MARGIN_PX of the view (pixels, world space)
+  stream(viewX: number, viewY: number, viewW: number, viewH: number): void;
+};
+
+// how far beyond the view a map starts loading (one screen is plenty at walking speed)
+const STREAM_MARGIN_PX = 256;
+
+type Slot = {
+  ref: WorldMapRef;
+  // placement in tiles on the composite grid
+  tx: number;
+  ty: number;
+  state: "idle" | "loading" | "ready" | "failed";
+};
+
+export async function loadWorldRegion(worldUrl: string, loadOpts: LoadTiledOpts = {}): Promise<WorldRegion> {
+  const refs = await loadTiledWorldFile(worldUrl, loadOpts);
+
+  // start map: first entry (Tiled keeps file order); its tile size defines the grid
+  const first = await loadTiled(refs[0].url, loadOpts);
+  const tw = first.map.tw;
+  const th = first.map.th;
+
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const r of refs) {
+    if (r.x < minX) minX = r.x;
+    if (r.y < minY) minY = r.y;
+    if (r.x + r.w > maxX) maxX = r.x + r.w;
+    if (r.y + r.h > maxY) maxY = r.y + r.h;
+  }
+
+  const w = Math.ceil((maxX - minX) / tw) | 0;
+  const h = Math.ceil((maxY - minY) / th) | 0;
+
+  const map: TiledMap = {
+    w,
+    h,
+    tw,
+    th,
+    props: first.map.props,
+    layers: {},
+    layerMeta: {},
+    imageLayers: [],
+    tile: new Uint32Array(w * h),
+    collide: new Uint32Array(w * h),
+    spawns: new Uint32Array(w * h),
+    ui: [],
+    objects: {},
+  };
+
+  const tilesets: TileSet[] = [];
+  for (const ts of first.tilesets) mergeTileset(ts);
+  const world: TiledWorld = { map, tilesets, ts: tilesets[0] };
+
+  const slots: Slot[] = refs.map((ref) => ({
+    ref,
+    tx: Math.round((ref.x - minX) / tw) | 0,
+    ty: Math.round((ref.y - minY) / th) | 0,
+    state: "idle",
+  }));
+
+  function mergeTileset(src: TileSet): TileSet {
+    for (const t of tilesets) {
+      if (t.img.src === src.img.src && t.tw === src.tw && t.th === src.th && t.tilecount === src.tilecount) return t;
+    }
+    const last = tilesets[tilesets.length - 1];
+    const merged = { ...src, firstgid: last ? last.firstgid + last.tilecount : 1 };
+    tilesets.push(merged);
+    return merged;
+  }
+
+  // first map to declare a layer name decides which composite array it lands in
+  function targetLayer(src: TiledMap, name: string): Uint32Array {
+    const existing = map.layers[name];
+    if (existing) return existing;
+
+    const data = src.layers[name];
+    let target: Uint32Array;
+    if (data === src.tile) target = map.tile;
+    else if (data === src.collide) target = map.collide;
+    else if (data === src.spawns) target = map.spawns;
+    else target = new Uint32Array(w * h);
+
+    map.layers[name] = target;
+    return target;
+  }
+
+  function stamp(slot: Slot, part: TiledWorld) {
+    const src = part.map;
+    if (src.tw !== tw || src.th !== th) {
+      throw new Error(`World: "${slot.ref.url}" uses ${src.tw}x${src.th} tiles, expected ${tw}x${th}`);
+    }
+
+    // per source tileset: gid delta into the merged list
+    const deltas = new Map<TileSet, number>();
+    for (const ts of part.tilesets) deltas.set(ts, mergeTileset(ts).firstgid - ts.firstgid);
+
+    const remap = (gidRaw: number) => {
+      const ts = tilesetForGid(part.tilesets, gidRaw);
+      if (!ts) return 0;
+      const flags = (gidRaw & ~GID_MASK) >>> 0;
+      return ((((gidRaw & GID_MASK) + deltas.get(ts)!) >>> 0) | flags) >>> 0;
+    };
+
+    // clip to the composite grid (map sizes in the .world may be stale)
+    const cw = Math.min(src.w, w - slot.tx);
+    const ch = Math.min(src.h, h - slot.ty);
+
+    for (const name in src.layers) {
+      const from = src.layers[name];
+      const to = targetLayer(src, name);
+      map.layerMeta[name] ??= src.layerMeta[name];
+
+      for (let y = 0; y < ch; y++) {
+        const si = y * src.w;
+        const di = (slot.ty + y) * w + slot.tx;
+        for (let x = 0; x < cw; x++) {
+          const g = from[si + x] >>> 0;
+          if ((g & GID_MASK) !== 0) to[di + x] = remap(g);
+        }
+      }
+    }
+
+    const dx = slot.tx * tw;
+    const dy = slot.ty * th;
+
+    offsetUiTriggers(src.ui, dx, dy);
+    map.ui.push(...src.ui);
+
+    // tile objects (platform art, tile templates) carry gids too; the start map included,
+    // since merging may renumber its tilesets as well
+    offsetObjects(src.objects, dx, dy);
+    for (const name in src.objects) {
+      for (const o of src.objects[name]) if (o.gid) o.gid = remap(o.gid) || o.gid; // unknown: keep (anchoring)
+      (map.objects[name] ??= []).push(...src.objects[name]);
+    }
+
+    offsetImageLayers(src.imageLayers, dx, dy);
+    map.imageLayers.push(...src.imageLayers);
+
+    slot.state = "ready";
+  }
+
+  function load(slot: Slot) {
+    slot.state = "loading";
+    loadTiled(slot.ref.url, loadOpts)
+      .then((part) => stamp(slot, part))
+      .catch((err) => {
+        slot.state = "failed";
+        console.error(err);
+      });
+  }
+
+  function stream(viewX: number, viewY: number, viewW: number, viewH: number) {
+    const x0 = viewX - STREAM_MARGIN_PX;
+    const y0 = viewY - STREAM_MARGIN_PX;
+    const x1 = viewX + viewW + STREAM_MARGIN_PX;
+    const y1 = viewY + viewH + STREAM_MARGIN_PX;
+
+    for (const s of slots) {
+      if (s.state !== "idle") continue;
+
+      const sx = s.tx * tw;
+      const sy = s.ty * th;
+      if (sx < x1 && sx + s.ref.w > x0 && sy < y1 && sy + s.ref.h > y0) load(s);
+    }
+  }
+
+  stamp(slots[0], first);
+
+  return { world, stream };
+}
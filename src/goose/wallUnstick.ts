@@ -1,5 +1,5 @@
 // src/goose/wallUnstick.ts
-import type { AABB, PhysicsState } from "../playerPhysics";
+import { aabbHitsTiles, type AABB, type PhysicsState } from "../playerPhysics";
 import type { SolidTileQuery, WorldInfo } from "../playerTypes";
 
 export type UnstickState = { catchT: number; cooldownT: number };
@@ -42,25 +42,11 @@ export function isPushingWall(a: AABB, dir: -1 | 1, solid: SolidTileQuery, world
 
   if (tyMid < 0 || tyMid >= world.tilesH) return true;
 
-  return solid(tx, tyMid);
+  return aabbHitsTiles({ x: px, y: yMid, w: 1, h: 1 }, solid, world);
 }
 
-function hitsAabb(x: number, y: number, w: number, h: number, solid: SolidTileQuery, world: WorldInfo) {
-  const tw = world.tw | 0,
-    th = world.th | 0;
-
-  const x0 = (x / tw) | 0;
-  const y0 = (y / th) | 0;
-  const x1 = ((x + w - 1) / tw) | 0;
-  const y1 = ((y + h - 1) / th) | 0;
-
-  for (let ty = y0; ty <= y1; ty++) {
-    for (let tx = x0; tx <= x1; tx++) {
-      if (solid(tx, ty)) return true;
-    }
-  }
-  return false;
-}
+const hitsAabb = (x: number, y: number, w: number, h: number, solid: SolidTileQuery, world: WorldInfo) =>
+  aabbHitsTiles({ x, y, w, h }, solid, world);
 
 function tryNudgeAwayFromWall(body: AABB, st: PhysicsState, solid: SolidTileQuery, world: WorldInfo) {
   // Prefer moving away from the contacted side.
@@ -6,6 +6,7 @@ import {
   stepTileAabbPhysics,
   unstuckTileAabb,
   aabbHitsTiles,
+  dropThroughOneWay,
 } from "./playerPhysics";
 import type { Keys, Player, SolidTileQuery, WorldInfo } from "./playerTypes";
 import { NO_KEYS } from "./playerTypes";
@@ -43,6 +44,8 @@ export async function createGooseEntity(opts?: {
     JUMP_BUF_T = 0.10,
     GROUND_GRACE_T = 0.05;
   const BABY_SPEED_MULT = 0.85;
+  // after the goose drops through a one-way platform, goslings standing on one follow within this window
+  const DROP_FOLLOW_T = 0.3;
 
   const physTune = defaultPhysicsTuning();
   const physState: PhysicsState = { grounded: false, hitCeil: false, hitLeft: false, hitRight: false };
@@ -71,8 +74,10 @@ export async function createGooseEntity(opts?: {
   let puppetJumpLatch = false;
   let groundGrace = 0;
   let puppetSpeed = 0;
+  let puppetDropT = 0;
 
   let jumpFailedThisFrame = false;
+  let droppedThisFrame = false;
 
   const dbg: {
     id: string;
@@ -177,6 +182,7 @@ export async function createGooseEntity(opts?: {
     const k = controllable ? keys : (NO_KEYS as Keys);
 
     jumpFailedThisFrame = false;
+    droppedThisFrame = false;
 
     groundGrace = physState.grounded ? GROUND_GRACE_T : Math.max(0, groundGrace - dt);
     const canJumpNow = physState.grounded || groundGrace > 0;
@@ -197,7 +203,13 @@ export async function createGooseEntity(opts?: {
 
     let attemptedJump = false;
 
-    if (jumpBuf > 0 && canJumpNow) {
+    if (jumpBuf > 0 && canJumpNow && k.down && physState.grounded && dropThroughOneWay(body, solid, world)) {
+      // down+jump on a one-way platform: fall through instead of jumping
+      droppedThisFrame = true;
+      jumpBuf = 0;
+      groundGrace = 0;
+      log("DROP_THROUGH");
+    } else if (jumpBuf > 0 && canJumpNow) {
       attemptedJump = true;
       jumpBuf = 0;
       groundGrace = 0;
@@ -243,9 +255,11 @@ export async function createGooseEntity(opts?: {
     _masterDy: number,
     masterJump: boolean,
     solid: SolidTileQuery,
-    world: WorldInfo
+    world: WorldInfo,
+    masterDrop = false
   ) {
     jumpFailedThisFrame = false;
+    droppedThisFrame = false;
 
     groundGrace = physState.grounded ? GROUND_GRACE_T : Math.max(0, groundGrace - dt);
     const canJumpNow = physState.grounded || groundGrace > 0;
@@ -268,6 +282,13 @@ export async function createGooseEntity(opts?: {
     }
     if (!masterJump) puppetJumpLatch = false;
 
+    puppetDropT = masterDrop ? DROP_FOLLOW_T : Math.max(0, puppetDropT - dt);
+    if (puppetDropT > 0 && physState.grounded && dropThroughOneWay(body, solid, world)) {
+      puppetDropT = 0;
+      groundGrace = 0;
+      droppedThisFrame = true;
+    }
+
     const preY = body.y;
 
     stepTileAabbPhysics(body, physState, dt, solid, world, physTune);
@@ -359,6 +380,10 @@ export async function createGooseEntity(opts?: {
       return !!jumpFailedThisFrame;
     },
 
+    get droppedThrough() {
+      return droppedThisFrame;
+    },
+
     update,
     puppetStep,
     draw,
@@ -0,0 +1,83 @@
+// src/levelDrop.ts
+// Playtesting maps outside the manifest: drop a .tmx/.tmj/.world together with its tilesets,
+// images and templates (loose files, a folder, or a .zip bundle) onto the page. References
+// between the dropped files resolve through tiled/virtualFiles.ts.
+import type { ExternalLevel } from "./game/levelManifest";
+import { registerVirtualFiles, releaseVirtualBundle, virtualBundleOf, type VirtualFile } from "./tiled/virtualFiles";
+import { unzip } from "./unzip";
+
+const MAP_RE = /\.(tmx|tmj)$/i;
+const WORLD_RE = /\.world$/i;
+const ZIP_RE = /\.zip$/i;
+
+const fileOf = (entry: FileSystemFileEntry) => new Promise<File>((res, rej) => entry.file(res, rej));
+const readBatch = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((res, rej) => reader.readEntries(res, rej));
+
+async function collectEntry(entry: FileSystemEntry, out: VirtualFile[]) {
+  if (entry.isFile) {
+    out.push({ path: entry.fullPath, data: await fileOf(entry as FileSystemFileEntry) });
+    return;
+  }
+  if (!entry.isDirectory) return;
+
+  // readEntries hands out a directory in batches until it returns []
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  for (let batch = await readBatch(reader); batch.length; batch = await readBatch(reader)) {
+    for (const e of batch) await collectEntry(e, out);
+  }
+}
+
+async function droppedFiles(dt: DataTransfer): Promise<VirtualFile[]> {
+  // DataTransfer is only readable during the event: grab everything before the first await
+  const entries = [...dt.items].map((it) => (it.kind === "file" ? it.webkitGetAsEntry() : null));
+  const loose = [...dt.files];
+
+  const raw: VirtualFile[] = [];
+  if (entries.some(Boolean)) {
+    for (const e of entries) if (e) await collectEntry(e, raw);
+  } else {
+    for (const f of loose) raw.push({ path: f.name, data: f });
+  }
+
+  // zips unpack next to where they were, under their own name
+  const out: VirtualFile[] = [];
+  for (const f of raw) {
+    if (!ZIP_RE.test(f.path)) {
+      out.push(f);
+      continue;
+    }
+    const dir = f.path.replace(ZIP_RE, "");
+    for (const z of await unzip(await f.data.arrayBuffer())) out.push({ path: `${dir}/${z.path}`, data: z.data });
+  }
+  return out;
+}
+
+/** Register the dropped files; one level per map (or per .world, whose maps then belong to it). */
+export async function levelsFromDrop(dt: DataTransfer): Promise<ExternalLevel[]> {
+  const urls = [...registerVirtualFiles(await droppedFiles(dt))].sort(([a], [b]) => a.localeCompare(b));
+
+  const worlds = urls.filter(([path]) => WORLD_RE.test(path));
+  const maps = worlds.length ? worlds : urls.filter(([path]) => MAP_RE.test(path));
+  if (!maps.length) {
+    const bundle = urls.length ? virtualBundleOf(urls[0][1]) : null;
+    if (bundle) releaseVirtualBundle(bundle);
+    throw new Error("Drop: no .tmx, .tmj or .world among the dropped files");
+  }
+
+  return maps.map(([path, map]) => ({ map, name: path }));
+}
+
+export function bindLevelDrop(onLevels: (levels: ExternalLevel[]) => void) {
+  document.addEventListener("dragover", (e) => {
+    if (!e.dataTransfer?.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  });
+
+  document.addEventListener("drop", (e) => {
+    if (!e.dataTransfer?.types.includes("Files")) return;
+    e.preventDefault();
+    levelsFromDrop(e.dataTransfer).then(onLevels).catch(console.error);
+  });
+}
@@ -7,11 +7,15 @@ import { createSceneManager } from "./scene";
 import { createMenuScene } from "./scenes/menuScene";
 import { createGameScene } from "./scenes/gameScene";
 import { createCreditsScene } from "./scenes/creditsScene";
+import { createLevelSelectScene } from "./scenes/levelSelectScene";
 
 import { createSoundSystem } from "./sound";
 import { createOggMusic, type OggMusic } from "./musicOgg";
 
 import { assetUrl } from "./assetUrl";
+import { createSaveStore } from "./save";
+import { watchTiledChanges } from "./tiledHotReload";
+import { bindLevelDrop } from "./levelDrop";
 
 const VIRTUAL_W = 160;
 const VIRTUAL_H = 144;
@@ -49,6 +53,22 @@ resize();
 
 const keys = createKeys();
 
+// progress + settings survive page reloads (falls back to memory if storage is blocked)
+const save = createSaveStore();
+
+// level list; mod packs point ?manifest= at their own (resolved against the page)
+const params = new URLSearchParams(location.search);
+const MANIFEST_URL = params.get("manifest") || assetUrl("levels.json");
+
+// Tiled project: per-class object property defaults (the same file designers open in Tiled)
+const OBJECT_TYPES_URL = assetUrl("Tiled/goose.tiled-project");
+
+// ?level=path/to/map.tmx boots straight into a map outside the manifest (playtesting)
+const LEVEL_PARAM = params.get("level");
+const EXTERNAL_LEVELS = LEVEL_PARAM
+  ? [{ map: new URL(LEVEL_PARAM, location.href).toString(), name: LEVEL_PARAM }]
+  : [];
+
 const sound = createSoundSystem({
   volume: MASTER_VOLUME,
   muted: false,
@@ -97,9 +117,41 @@ let creditsReady = false;
 
 let activeMusic: OggMusic = musicA;
 
+const TRACK_A = "Music/tix0.ogg";
+const TRACK_B = "Music/2trash2track.ogg";
+
+// Per-level tracks named by a map's "music" property (asset paths), loaded on first use.
+// The two default tracks are pre-seeded so maps can name them without a second decode.
+const levelTracks = new Map<string, OggMusic>([
+  [TRACK_A, musicA],
+  [TRACK_B, musicB],
+]);
+const levelTracksReady = new Set<OggMusic>();
+
+function levelTrackFor(path: string): OggMusic {
+  const existing = levelTracks.get(path);
+  if (existing) return existing;
+
+  const m = createOggMusic({
+    volume: Math.min(1, MASTER_VOLUME * 12),
+    muted: false,
+    ctx: musicCtx,
+  });
+  levelTracks.set(path, m);
+  if (audioUnlocked) m.userGesture();
+
+  m.load(assetUrl(path))
+    .then(() => {
+      levelTracksReady.add(m);
+      tryStartMusic();
+    })
+    .catch(console.error);
+
+  return m;
+}
+
 function stopNormalTracks(fadeSec = 0.04) {
-  musicA.stop({ fadeSec });
-  musicB.stop({ fadeSec });
+  for (const m of levelTracks.values()) m.stop({ fadeSec });
 }
 
 function stopAllMusic(fadeSec = 0.04) {
@@ -117,7 +169,9 @@ function canUseNormalMusic() {
 }
 
 function isReady(m: OggMusic) {
-  return m === musicA ? musicAReady : musicBReady;
+  if (m === musicA) return musicAReady;
+  if (m === musicB) return musicBReady;
+  return levelTracksReady.has(m);
 }
 
 function startSelectedNormalTrack(forceRestart: boolean) {
@@ -126,17 +180,20 @@ function startSelectedNormalTrack(forceRestart: boolean) {
   const ready = isReady(activeMusic);
   if (!ready) return;
 
-  const other = activeMusic === musicA ? musicB : musicA;
-  other.stop({ fadeSec: 0.03 });
+  for (const other of levelTracks.values()) if (other !== activeMusic) other.stop({ fadeSec: 0.03 });
 
   // IMPORTANT: always start (and optionally restart) the selected track.
   activeMusic.play({ loop: true, restart: forceRestart });
 }
 
-function setActiveLevelMusic(levelIndex: number) {
-  // Alternate per-level:
+function setActiveLevelMusic(levelIndex: number, track?: string) {
+  // Map property "music" wins; otherwise alternate per-level:
   // even -> A (tix0), odd -> B (2trash2track)
-  activeMusic = ((levelIndex | 0) & 1) === 0 ? musicA : musicB;
+  if (track) activeMusic = levelTrackFor(track);
+  else activeMusic = ((levelIndex | 0) & 1) === 0 ? musicA : musicB;
+
+  // a freshly requested track may still be loading; keep the old one quiet meanwhile
+  if (!isReady(activeMusic)) stopNormalTracks(0.03);
 
   // If we are allowed to use normal music, force restart so switches are guaranteed.
   startSelectedNormalTrack(true);
@@ -148,8 +205,7 @@ function unlockAudioOnce() {
   audioUnlocked = true;
 
   sound.userGesture();
-  musicA.userGesture();
-  musicB.userGesture();
+  for (const m of levelTracks.values()) m.userGesture();
   winMusic.userGesture();
   creditsMusic.userGesture();
 
@@ -193,7 +249,7 @@ function stopCreditsTrack() {
 // --- MUSIC LOADS (itch-safe via assetUrl) ---
 
 musicA
-  .load(assetUrl("Music/tix0.ogg"))
+  .load(assetUrl(TRACK_A))
   .then(() => {
     musicAReady = true;
     tryStartMusic();
@@ -201,7 +257,7 @@ musicA
   .catch(console.error);
 
 musicB
-  .load(assetUrl("Music/2trash2track.ogg"))
+  .load(assetUrl(TRACK_B))
   .then(() => {
     musicBReady = true;
     tryStartMusic();
@@ -324,24 +380,53 @@ declare global {
       keys,
       getTap: () => tapPressed,
       canStart: () => gameReady,
-      start: () => {
-        if (!game) return;
-
-        wantMusic = true;
-        tryStartMusic();
-
-        mgr.set(
-          createGameScene(game, keys, {
-            onLevelIndexChanged: (levelIndex) => {
-              setActiveLevelMusic(levelIndex);
-            },
-          })
-        );
-        setBlitterForGame(game);
-      },
+      start: () => openLevelSelect(),
     })
   );
 
+  // play level i (kept as-is when it's the level already loaded, e.g. the resumed one)
+  // forceReload: load the level even when it is the current one (restart, re-dropped files)
+  function startGame(g: Game, i: number, forceReload = false) {
+    wantMusic = save.data.settings.music;
+
+    const loaded = !forceReload && (i | 0) === g.getLevelIndex();
+    if (!loaded) g.loadLevel(i | 0);
+
+    // a fresh load re-announces its map's track via onLevelMusic once it is in
+    setActiveLevelMusic(i, loaded ? g.getLevelMusic() : undefined);
+
+    mgr.set(
+      createGameScene(g, keys, {
+        onLevelIndexChanged: (levelIndex) => {
+          setActiveLevelMusic(levelIndex, game?.getLevelMusic());
+        },
+        onSelect: () => openLevelSelect(),
+      })
+    );
+    setBlitterForGame(g);
+  }
+
+  function openLevelSelect() {
+    const g = game;
+    if (!g) return;
+
+    // UI scene: dummy background/cam for the blitter
+    setBlitterForUI();
+
+    mgr.set(
+      createLevelSelectScene({
+        keys,
+        getTap: () => tapPressed,
+        levels: g.getLevels(),
+        initial: g.getLevelIndex(),
+        isUnlocked: (i) => g.isLevelUnlocked(i),
+        save,
+        loadPreview: (i) => g.loadLevelPreview(i),
+        play: (i) => startGame(g, i),
+      })
+    );
+  }
+
   function setBlitterForUI() {
     (blit1bit as any).__impl = undefined;
   }
@@ -372,7 +457,7 @@ declare global {
         keys,
         getTap: () => tapPressed,
         onEnter: () => {
-          wantMusic = true;
+          wantMusic = save.data.settings.music;
           playCreditsTrack();
         },
         onExit: () => stopCreditsTrack(),
@@ -380,21 +465,9 @@ declare global {
           if (!game) return;
 
           stopCreditsTrack();
-          wantMusic = true;
 
           // reset to level 0 and resume normal per-level music
-          setActiveLevelMusic(0);
-
-          game.loadLevel(0);
-
-          mgr.set(
-            createGameScene(game, keys, {
-              onLevelIndexChanged: (levelIndex) => {
-                setActiveLevelMusic(levelIndex);
-              },
-            })
-          );
-          setBlitterForGame(game);
+          startGame(game, 0, true);
         },
       } as any)
     );
@@ -402,10 +475,14 @@ declare global {
 
   createGame(VIRTUAL_W, VIRTUAL_H, {
     sound,
+    save,
+    manifestUrl: MANIFEST_URL,
+    objectTypesUrl: OBJECT_TYPES_URL,
+    externalLevels: EXTERNAL_LEVELS,
     onWinMusicBegin: playWinTrack,
     onWinMusicEnd: restoreNormalTrack,
-    onLevelMusic: (levelIndex: number) => {
-      setActiveLevelMusic(levelIndex);
+    onLevelMusic: (levelIndex: number, track?: string) => {
+      setActiveLevelMusic(levelIndex, track);
     },
     onGameComplete: () => {
       goToCredits();
@@ -415,6 +492,17 @@ declare global {
       game = g;
       gameReady = true;
 
+      // dev server: saving a map/tileset in Tiled swaps it into the running level
+      watchTiledChanges((path) => game?.hotReload(path));
+
+      // designers drop their map + tilesets (or a zip) anywhere on the page to play it
+      bindLevelDrop((levels) => {
+        if (!game) return;
+        const first = levels.map((x) => game!.addExternalLevel(x))[0];
+        stopCreditsTrack();
+        startGame(game, first, true); // always fresh: a re-drop replaces the same level's files
+      });
+
       // expose debug API once game exists
       window.dbg = {
         game: () => game,
@@ -426,7 +514,7 @@ declare global {
 
         level: (i: number) => {
           if (!game) return;
-          wantMusic = true;
+          wantMusic = save.data.settings.music;
           tryStartMusic();
           game.loadLevel(i | 0);
           console.log("[dbg] loadLevel ->", game.getLevelIndex(), "/", game.getLevelCount());
@@ -434,7 +522,7 @@ declare global {
 
         next: () => {
           if (!game) return;
-          wantMusic = true;
+          wantMusic = save.data.settings.music;
           tryStartMusic();
           game.nextLevel();
           console.log("[dbg] nextLevel ->", game.getLevelIndex(), "/", game.getLevelCount());
@@ -442,7 +530,7 @@ declare global {
 
         prev: () => {
           if (!game) return;
-          wantMusic = true;
+          wantMusic = save.data.settings.music;
           tryStartMusic();
           const idx = game.getLevelIndex() | 0;
           const cnt = Math.max(1, game.getLevelCount() | 0);
@@ -452,7 +540,7 @@ declare global {
 
         reload: () => {
           if (!game) return;
-          wantMusic = true;
+          wantMusic = save.data.settings.music;
           tryStartMusic();
           game.loadLevel(game.getLevelIndex());
           console.log("[dbg] reload ->", game.getLevelIndex(), "/", game.getLevelCount());
@@ -465,6 +553,7 @@ declare global {
 
         music: (on: boolean) => {
           wantMusic = !!on;
+          save.setSettings({ music: wantMusic });
           if (!wantMusic) stopAllMusic(0.04);
           else tryStartMusic();
           console.log("[dbg] music:", wantMusic ? "on" : "off");
@@ -1,5 +1,16 @@
 // src/playerPhysics.ts
 export type SolidTileQuery = (tx: number, ty: number) => boolean;
+// world-pixel narrow phase (tile art masks); only asked about pixels inside solid tiles
+export type SolidPixelQuery = (px: number, py: number) => boolean;
+
+// Ramp inside a solid tile: solid depth (px from the solid side) at the tile's left/right edge.
+// Floor ramps are solid below the line through those depths, ceiling ramps above it.
+export type TileSlope = { ceil: boolean; left: number; right: number };
+export type SlopeQuery = (tx: number, ty: number) => TileSlope | null;
+// one-way (jump-through) tiles: they only hold up bodies whose feet started the step above them
+export type OneWayQuery = (tx: number, ty: number) => boolean;
+// moving platforms (world pixels, whole numbers): jump-through like one-way tiles
+export type PlatformBox = { x: number; y: number; w: number; h: number };
 
 export type AABB = { x: number; y: number; w: number; h: number; vx: number; vy: number };
 
@@ -13,7 +24,19 @@ export type PhysicsTuning = {
 
 export type PhysicsState = { grounded: boolean; hitCeil: boolean; hitLeft: boolean; hitRight: boolean };
 
-export type WorldInfo = { w: number; h: number; tw: number; th: number; tilesW: number; tilesH: number };
+export type WorldInfo = {
+  w: number;
+  h: number;
+  tw: number;
+  th: number;
+  tilesW: number;
+  tilesH: number;
+  gravScale?: number; // per-level multiplier on tuning.grav (map property "gravity")
+  solidPixel?: SolidPixelQuery; // set => collide as drawn (map property collision="pixel")
+  slopeAt?: SlopeQuery; // ramps; bodies meet them with their bottom/top centre
+  oneWayAt?: OneWayQuery;
+  platforms?: readonly PlatformBox[];
+};
 
 export function defaultPhysicsTuning(): PhysicsTuning {
   return { grav: 780, fallMax: 160, stepUp: 3, snapDown: 4, maxSubSteps: 4 };
@@ -24,7 +47,19 @@ const resetState = (st: PhysicsState) => {
   st.grounded = st.hitCeil = st.hitLeft = st.hitRight = false;
 };
 
-function hits(x: number, y: number, w: number, h: number, solid: SolidTileQuery, world: WorldInfo) {
+// `cx`: the body's centre column, which is what stands on (or bumps) a ramp.
+// `feet`: the body's bottom at the start of the move; one-way tiles block only at or below it
+// (undefined = they never block: sideways moves, rescues, snapping).
+function boxHits(
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  cx: number,
+  solid: SolidTileQuery,
+  world: WorldInfo,
+  feet?: number
+) {
   const tw = world.tw | 0,
     th = world.th | 0;
 
@@ -33,7 +68,110 @@ function hits(x: number, y: number, w: number, h: number, solid: SolidTileQuery,
   const x1 = ((x + w - 1) / tw) | 0,
     y1 = ((y + h - 1) / th) | 0;
 
-  for (let ty = y0; ty <= y1; ty++) for (let tx = x0; tx <= x1; tx++) if (solid(tx, ty)) return true;
+  for (let ty = y0; ty <= y1; ty++) {
+    for (let tx = x0; tx <= x1; tx++) {
+      if (!solid(tx, ty)) continue;
+      // (the lowest pixel row a box covers is (bottom - 1) | 0, as in the tile test)
+      if (world.oneWayAt?.(tx, ty) && (feet === undefined || ty * th <= Math.floor(feet - 1))) continue;
+      const slope = world.slopeAt?.(tx, ty);
+      if (slope ? rampHit(slope, tx, ty, cx, y, h, world) : !world.solidPixel || pixelsHit(tx, ty, x, y, w, h, world)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function rampHit(s: TileSlope, tx: number, ty: number, cx: number, y: number, h: number, world: WorldInfo) {
+  const tw = world.tw | 0,
+    th = world.th | 0;
+  const u = clamp(cx - tx * tw, 0, tw);
+  const depth = s.left + ((s.right - s.left) * u) / tw;
+  return s.ceil ? y < ty * th + depth : y + h > (ty + 1) * th - depth;
+}
+
+// any floor (ceil=false) / ceiling ramp among the tiles under the band
+function rampInBand(x: number, y: number, w: number, h: number, ceil: boolean, world: WorldInfo) {
+  const tw = world.tw | 0,
+    th = world.th | 0;
+
+  const x0 = Math.max(0, (x / tw) | 0),
+    y0 = Math.max(0, (y / th) | 0);
+  const x1 = Math.min(world.tilesW - 1, ((x + w - 1) / tw) | 0),
+    y1 = Math.min(world.tilesH - 1, ((y + h - 1) / th) | 0);
+
+  for (let ty = y0; ty <= y1; ty++) {
+    for (let tx = x0; tx <= x1; tx++) {
+      const s = world.slopeAt!(tx, ty);
+      if (s && s.ceil === ceil) return true;
+    }
+  }
+  return false;
+}
+
+// Knee height: on a ramp the body's bottom (or top) band meets the terrain only at its centre column,
+// so the front of the box can hang over the rising ground (and the solids under it) without catching.
+// Covers up to 45° across half the body width.
+const kneeOf = (w: number, h: number) => Math.min(h >> 1, Math.ceil(w * 0.5) + 1);
+
+// platforms hold up a body whose feet started the step above their top row, same rule as one-way tiles
+function platformHit(x: number, y: number, w: number, h: number, platforms: readonly PlatformBox[], feet: number) {
+  const x0 = x | 0,
+    y0 = y | 0;
+  const x1 = (x + w - 1) | 0,
+    y1 = (y + h - 1) | 0;
+  const lowest = Math.floor(feet - 1);
+
+  for (const p of platforms) {
+    if (p.y <= lowest) continue;
+    if (x1 >= p.x && x0 < p.x + p.w && y1 >= p.y && y0 < p.y + p.h) return true;
+  }
+  return false;
+}
+
+function hits(x: number, y: number, w: number, h: number, solid: SolidTileQuery, world: WorldInfo, feet?: number) {
+  if (feet !== undefined && world.platforms?.length && platformHit(x, y, w, h, world.platforms, feet)) return true;
+
+  const cx = x + w * 0.5;
+  const knee = world.slopeAt ? kneeOf(w, h) : 0;
+  if (knee <= 0) return boxHits(x, y, w, h, cx, solid, world, feet);
+
+  // ramps in the bands (one px past the body, so standing on one counts)
+  const onFloor = rampInBand(x, y + h - knee, w, knee + 1, false, world);
+  const onCeil = rampInBand(x, y - 1, w, knee + 1, true, world);
+  if (!onFloor && !onCeil) return boxHits(x, y, w, h, cx, solid, world, feet);
+
+  const top = onCeil ? y + knee : y;
+  const bottom = onFloor ? y + h - knee : y + h;
+
+  if (boxHits(x, top, w, bottom - top, cx, solid, world, feet)) return true;
+  if (onFloor && boxHits(cx - 0.5, bottom, 1, y + h - bottom, cx, solid, world, feet)) return true;
+  return onCeil && boxHits(cx - 0.5, y, 1, top - y, cx, solid, world, feet);
+}
+
+// how far a ramp may lift (or drop) a grounded body moving `dx` this sub-step (<= 45°)
+function rampReach(a: { x: number; y: number; w: number; h: number }, dx: number, world: WorldInfo) {
+  if (!world.slopeAt) return 0;
+  const adx = Math.abs(dx);
+  const knee = kneeOf(a.w, a.h);
+  if (!rampInBand(a.x - adx, a.y + a.h - knee, a.w + 2 * adx, knee + 2, false, world)) return 0;
+  return (Math.ceil(adx) + 1) | 0;
+}
+
+// the part of the box inside tile (tx,ty), pixel by pixel (same inclusive span as the tile test)
+function pixelsHit(tx: number, ty: number, x: number, y: number, w: number, h: number, world: WorldInfo) {
+  const tw = world.tw | 0,
+    th = world.th | 0;
+  const solidPixel = world.solidPixel!;
+
+  const px0 = Math.max(x | 0, tx * tw),
+    px1 = Math.min((x + w - 1) | 0, tx * tw + tw - 1);
+  const py0 = Math.max(y | 0, ty * th),
+    py1 = Math.min((y + h - 1) | 0, ty * th + th - 1);
+
+  for (let py = py0; py <= py1; py++) {
+    for (let px = px0; px <= px1; px++) if (solidPixel(px, py)) return true;
+  }
   return false;
 }
 
@@ -43,11 +181,8 @@ export function aabbHitsTiles(a: { x: number; y: number; w: number; h: number },
 }
 
 function rowSolid(ty: number, x: number, w: number, solid: SolidTileQuery, world: WorldInfo) {
-  const tw = world.tw | 0;
-  const x0 = (x / tw) | 0,
-    x1 = ((x + w - 1) / tw) | 0;
-  for (let tx = x0; tx <= x1; tx++) if (solid(tx, ty)) return true;
-  return false;
+  const th = world.th | 0;
+  return hits(x, ty * th, w, th, solid, world);
 }
 
 // Binary-search sweep to the furthest non-colliding position along X.
@@ -74,15 +209,16 @@ function sweepYToContact(a: AABB, ny: number, solid: SolidTileQuery, world: Worl
   const start = a.y;
   if (ny === start) return start;
 
-  if (hits(a.x, start, a.w, a.h, solid, world)) return start;
-  if (!hits(a.x, ny, a.w, a.h, solid, world)) return ny;
+  const feet = start + a.h;
+  if (hits(a.x, start, a.w, a.h, solid, world, feet)) return start;
+  if (!hits(a.x, ny, a.w, a.h, solid, world, feet)) return ny;
 
   let free = start;
   let blocked = ny;
 
   for (let i = 0; i < iters; i++) {
     const mid = (free + blocked) * 0.5;
-    if (!hits(a.x, mid, a.w, a.h, solid, world)) free = mid;
+    if (!hits(a.x, mid, a.w, a.h, solid, world, feet)) free = mid;
     else blocked = mid;
   }
 
@@ -91,10 +227,10 @@ function sweepYToContact(a: AABB, ny: number, solid: SolidTileQuery, world: Worl
 
 // Step-up must be "onto a ledge", not "into any empty pocket".
 function tryStepUp(a: AABB, nx: number, solid: SolidTileQuery, world: WorldInfo, tuning: PhysicsTuning) {
-  const maxUp = tuning.stepUp | 0;
+  const maxUp = Math.max(tuning.stepUp | 0, rampReach(a, nx - a.x, world));
   if (maxUp <= 0) return false;
 
-  if (!hits(a.x, a.y + 1, a.w, a.h, solid, world)) return false;
+  if (!hits(a.x, a.y + 1, a.w, a.h, solid, world, a.y + a.h)) return false;
 
   const th = world.th | 0;
 
@@ -102,8 +238,8 @@ function tryStepUp(a: AABB, nx: number, solid: SolidTileQuery, world: WorldInfo,
     const ny = a.y - up;
     if (ny < 0) break;
 
-    if (hits(nx, ny, a.w, a.h, solid, world)) continue;
-    if (!hits(nx, ny + 1, a.w, a.h, solid, world)) continue;
+    if (hits(nx, ny, a.w, a.h, solid, world, ny + a.h)) continue;
+    if (!hits(nx, ny + 1, a.w, a.h, solid, world, ny + a.h)) continue;
 
     const headY = ny - 1;
     if (headY >= 0) {
@@ -169,6 +305,16 @@ export function unstuckTileAabb(a: AABB, _st: PhysicsState, solid: SolidTileQuer
   return false;
 }
 
+/** Standing on one-way tiles (or platforms) only: drop just below their top so the next steps fall through. */
+export function dropThroughOneWay(a: AABB, solid: SolidTileQuery, world: WorldInfo) {
+  if (!world.oneWayAt && !world.platforms?.length) return false;
+  if (!hits(a.x, a.y + 1, a.w, a.h, solid, world, a.y + a.h)) return false; // nothing underfoot
+  if (hits(a.x, a.y + 1, a.w, a.h, solid, world)) return false; // partly on solid ground
+
+  a.y += 1;
+  return true;
+}
+
 /** Kinematic move (no gravity). */
 export function moveTileAabbKinematic(
   a: AABB,
@@ -202,7 +348,7 @@ export function moveTileAabbKinematic(
 
     if (sdy) {
       const ny = a.y + sdy;
-      if (!hits(a.x, ny, a.w, a.h, solid, world)) a.y = ny;
+      if (!hits(a.x, ny, a.w, a.h, solid, world, a.y + a.h)) a.y = ny;
       else {
         const dir = sdy > 0 ? 1 : -1;
         const snapped = sweepYToContact(a, ny, solid, world);
@@ -212,10 +358,10 @@ export function moveTileAabbKinematic(
       }
     }
 
-    if (!st.grounded && sdy >= 0 && (tuning.snapDown | 0) > 0) {
-      const maxDown = tuning.snapDown | 0;
+    const maxDown = Math.max(tuning.snapDown | 0, rampReach(a, sdx, world));
+    if (!st.grounded && sdy >= 0 && maxDown > 0) {
       for (let d = 1; d <= maxDown; d++) {
-        if (hits(a.x, a.y + d, a.w, a.h, solid, world)) {
+        if (hits(a.x, a.y + d, a.w, a.h, solid, world, a.y + a.h)) {
           a.y = a.y + d - 1;
           st.grounded = true;
           break;
@@ -230,7 +376,7 @@ export function moveTileAabbKinematic(
   // only rescue if truly inside (doesn't change velocities)
   unstuckTileAabb(a, st, solid, world);
 
-  if (!st.grounded) st.grounded = hits(a.x, a.y + 1, a.w, a.h, solid, world);
+  if (!st.grounded) st.grounded = hits(a.x, a.y + 1, a.w, a.h, solid, world, a.y + a.h);
 }
 
 /** Platformer physics step. */
@@ -247,7 +393,7 @@ export function stepTileAabbPhysics(
   // If we start in-solid, rescue (no velocity edits).
   unstuckTileAabb(a, st, solid, world);
 
-  a.vy = Math.min(tuning.fallMax, a.vy + tuning.grav * dt);
+  a.vy = Math.min(tuning.fallMax, a.vy + tuning.grav * (world.gravScale ?? 1) * dt);
 
   const steps = clamp(
     ((((Math.max(Math.abs(a.vx), Math.abs(a.vy)) * dt) / 8) | 0) || 1),
@@ -285,7 +431,7 @@ export function stepTileAabbPhysics(
 
     const ny = a.y + a.vy * sdt;
 
-    if (!hits(a.x, ny, a.w, a.h, solid, world)) {
+    if (!hits(a.x, ny, a.w, a.h, solid, world, a.y + a.h)) {
       a.y = ny;
     } else {
       const dirY = a.vy > 0 ? 1 : a.vy < 0 ? -1 : 0;
@@ -304,10 +450,11 @@ export function stepTileAabbPhysics(
       a.vy = 0;
     }
 
-    if (!st.grounded && a.vy >= 0 && (tuning.snapDown | 0) > 0) {
-      const maxDown = tuning.snapDown | 0;
+    // descending a ramp drops up to its rise per step: stay on it
+    const maxDown = Math.max(tuning.snapDown | 0, rampReach(a, a.vx * sdt, world));
+    if (!st.grounded && a.vy >= 0 && maxDown > 0) {
       for (let d = 1; d <= maxDown; d++) {
-        if (hits(a.x, a.y + d, a.w, a.h, solid, world)) {
+        if (hits(a.x, a.y + d, a.w, a.h, solid, world, a.y + a.h)) {
           a.y = a.y + d - 1;
           a.vy = 0;
           st.grounded = true;
@@ -323,5 +470,5 @@ export function stepTileAabbPhysics(
   // only rescue if truly inside; does not change velocities
   unstuckTileAabb(a, st, solid, world);
 
-  if (!st.grounded) st.grounded = hits(a.x, a.y + 1, a.w, a.h, solid, world);
+  if (!st.grounded) st.grounded = hits(a.x, a.y + 1, a.w, a.h, solid, world, a.y + a.h);
 }
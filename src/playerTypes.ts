@@ -1,4 +1,6 @@
 // src/playerTypes.ts
+import type { OneWayQuery, PlatformBox, SlopeQuery } from "./playerPhysics";
+
 export type Keys = {
   left: boolean;
   right: boolean;
@@ -18,11 +20,17 @@ export type Keys = {
 
 
 export type SolidTileQuery = (tx: number, ty: number) => boolean;
+export type SolidPixelQuery = (px: number, py: number) => boolean;
 
 export type WorldInfo = {
   w: number; h: number;
   tw: number; th: number;
   tilesW: number; tilesH: number;
+  gravScale?: number; // per-level multiplier on gravity (map property "gravity")
+  solidPixel?: SolidPixelQuery; // narrow phase against tile art masks (map property collision="pixel")
+  slopeAt?: SlopeQuery; // ramp tiles (class "slope"), see game/slopes.ts
+  oneWayAt?: OneWayQuery; // jump-through tiles (class "oneway")
+  platforms?: readonly PlatformBox[]; // moving platforms, see game/platforms.ts
 };
 
 export type Player = {
@@ -36,18 +44,23 @@ export type Player = {
 
   grounded: boolean;
 
+  // true for the frame a down+jump started a drop through one-way tiles
+  readonly droppedThrough: boolean;
+
   // normal controller step (goose)
   update(dt: number, keys: Keys, isSolidTile: SolidTileQuery, world: WorldInfo): void;
 
   // puppet step (gooselings): apply master displacement, but keep their own gravity;
-  // masterJump = true when the goose *actually started a jump this frame*
+  // masterJump = true when the goose *actually started a jump this frame*;
+  // masterDrop = the goose dropped through a one-way platform (goslings on one follow shortly)
   puppetStep(
     dt: number,
     masterDx: number,
     masterDy: number,
     masterJump: boolean,
     isSolidTile: SolidTileQuery,
-    world: WorldInfo
+    world: WorldInfo,
+    masterDrop?: boolean
   ): void;
 
   draw(ctx: CanvasRenderingContext2D, cam: { x: number; y: number }): void;
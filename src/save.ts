@@ -0,0 +1,209 @@
+// src/save.ts
+// Persistent progress: cleared levels (unlocks derive from them, see levelManifest.ts),
+// per-level best time + deaths, and settings.
+// Stored as one versioned JSON blob; the backend is pluggable (localStorage in the browser,
+// memory when storage is blocked, e.g. itch iframes with third-party storage disabled).
+
+export type SaveBackend = {
+  read(key: string): string | null;
+  write(key: string, value: string): void;
+};
+
+export type LevelRecord = {
+  completed: boolean;
+  bestTimeSec: number | null;
+  deaths: number;
+};
+
+export type SaveSettings = {
+  invert: boolean;
+  music: boolean;
+};
+
+export type SaveData = {
+  version: number;
+
+  // level id to resume at on the next boot ("" = start)
+  lastLevel: string;
+
+  // keyed by level id, so reordering the manifest keeps records attached
+  levels: Record<string, LevelRecord>;
+
+  settings: SaveSettings;
+};
+
+export type SaveStore = {
+  get data(): Readonly<SaveData>;
+
+  level(id: string): LevelRecord;
+  isCleared(id: string): boolean;
+
+  setLastLevel(id: string): void;
+  recordDeath(id: string): void;
+  // marks the level cleared and keeps the best time
+  recordWin(id: string, timeSec: number): void;
+
+  setSettings(patch: Partial<SaveSettings>): void;
+
+  // wipe progress (settings are kept)
+  reset(): void;
+};
+
+export const SAVE_VERSION = 1;
+const DEFAULT_KEY = "goose.save";
+
+type SaveBlob = Record<string, unknown>;
+
+// migrations[v] upgrades a blob from version v to v + 1; append one per schema change
+// (a step narrows whatever fields it reads, the blob is untrusted)
+const MIGRATIONS: ((old: SaveBlob) => SaveBlob)[] = [
+  // 0 -> 1: unversioned blobs predate the schema; nothing in them is trusted
+  () => ({ version: 1 }),
+];
+
+function defaultSave(): SaveData {
+  return {
+    version: SAVE_VERSION,
+    lastLevel: "",
+    levels: {},
+    settings: { invert: false, music: true },
+  };
+}
+
+const intOr = (v: unknown, def: number, min: number) =>
+  typeof v === "number" && Number.isFinite(v) ? Math.max(min, v | 0) : def;
+
+const isBlob = (v: unknown): v is SaveBlob => !!v && typeof v === "object" && !Array.isArray(v);
+
+function sanitizeLevel(v: unknown): LevelRecord {
+  const r = isBlob(v) ? v : {};
+  const best = r.bestTimeSec;
+  return {
+    completed: r.completed === true,
+    bestTimeSec: typeof best === "number" && Number.isFinite(best) && best > 0 ? best : null,
+    deaths: intOr(r.deaths, 0, 0),
+  };
+}
+
+// Upgrade to SAVE_VERSION and drop anything malformed field by field (never throws).
+export function migrateSave(raw: unknown): SaveData {
+  if (!isBlob(raw)) return defaultSave();
+  let blob = raw;
+
+  let v = intOr(blob.version, 0, 0);
+  if (v > SAVE_VERSION) return defaultSave(); // written by a newer build (the store leaves it alone)
+
+  while (v < SAVE_VERSION) {
+    blob = MIGRATIONS[v](blob);
+    v++;
+  }
+
+  const out = defaultSave();
+  if (typeof blob.lastLevel === "string") out.lastLevel = blob.lastLevel;
+
+  const levels = blob.levels;
+  if (isBlob(levels)) {
+    for (const id in levels) out.levels[id] = sanitizeLevel(levels[id]);
+  }
+
+  const s = isBlob(blob.settings) ? blob.settings : {};
+  if (typeof s.invert === "boolean") out.settings.invert = s.invert;
+  if (typeof s.music === "boolean") out.settings.music = s.music;
+
+  return out;
+}
+
+export function createMemoryBackend(): SaveBackend {
+  const m = new Map<string, string>();
+  return {
+    read: (key) => m.get(key) ?? null,
+    write: (key, value) => void m.set(key, value),
+  };
+}
+
+// localStorage, or memory when it is missing or throws (private mode, sandboxed iframes)
+export function createLocalStorageBackend(): SaveBackend {
+  try {
+    const ls = globalThis.localStorage;
+    const probe = "__goose_probe";
+    ls.setItem(probe, "1");
+    ls.removeItem(probe);
+    return {
+      read: (key) => ls.getItem(key),
+      write: (key, value) => {
+        try {
+          ls.setItem(key, value);
+        } catch {}
+      },
+    };
+  } catch {
+    return createMemoryBackend();
+  }
+}
+
+export function createSaveStore(opts: { backend?: SaveBackend; key?: string } = {}): SaveStore {
+  const backend = opts.backend ?? createLocalStorageBackend();
+  const key = opts.key ?? DEFAULT_KEY;
+
+  // a save from a newer build: play on defaults this session without overwriting it,
+  // so rolling back a deploy doesn't wipe progress
+  let readOnly = false;
+  let data = load();
+
+  function load(): SaveData {
+    const text = backend.read(key);
+    if (!text) return defaultSave();
+    try {
+      const raw = JSON.parse(text);
+      readOnly = intOr(raw?.version, 0, 0) > SAVE_VERSION;
+      return migrateSave(raw);
+    } catch {
+      return defaultSave();
+    }
+  }
+
+  function persist() {
+    if (!readOnly) backend.write(key, JSON.stringify(data));
+  }
+
+  function level(id: string): LevelRecord {
+    return (data.levels[id] ??= { completed: false, bestTimeSec: null, deaths: 0 });
+  }
+
+  return {
+    get data() {
+      return data;
+    },
+
+    level,
+    isCleared: (id) => data.levels[id]?.completed === true,
+
+    setLastLevel(id) {
+      if (id === data.lastLevel) return;
+      data.lastLevel = id;
+      persist();
+    },
+
+    recordDeath(id) {
+      level(id).deaths++;
+      persist();
+    },
+
+    recordWin(id, timeSec) {
+      const r = level(id);
+      r.completed = true;
+      if (timeSec > 0 && (r.bestTimeSec == null || timeSec < r.bestTimeSec)) r.bestTimeSec = timeSec;
+      persist();
+    },
+
+    setSettings(patch) {
+      data.settings = { ...data.settings, ...patch };
+      persist();
+    },
+
+    reset() {
+      data = { ...defaultSave(), settings: data.settings };
+      persist();
+    },
+  };
+}
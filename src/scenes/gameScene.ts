@@ -5,14 +5,27 @@ import type { Scene } from "../scene";
 
 type GameSceneOpts = {
   onLevelIndexChanged?: (levelIndex: number) => void;
+
+  // SELECT (Shift) pressed: back to the level select
+  onSelect?: () => void;
 };
 
 export function createGameScene(game: Game, keys: Keys, opts: GameSceneOpts = {}): Scene {
   // Track level changes during natural gameplay transitions (doors, win flow, etc.)
   let lastLevelIndex = (game as any).getLevelIndex ? (game as any).getLevelIndex() | 0 : -1;
 
+  // edge-triggered; a SELECT still held from the previous scene doesn't count
+  let selectHeld = keys.select;
+
   return {
     update(dt: number) {
+      if (keys.select && !selectHeld && opts.onSelect) {
+        selectHeld = true;
+        opts.onSelect();
+        return;
+      }
+      selectHeld = keys.select;
+
       game.update(dt, keys);
 
       // If the game advanced to a new level without going through the debug API,
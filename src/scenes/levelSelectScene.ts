@@ -0,0 +1,228 @@
+// src/scenes/levelSelectScene.ts
+// Level select: one level at a time with a thumbnail rendered from its map data,
+// its name (manifest title, else map property "title", else the file name), chapter, clear state,
+// best time vs par and deaths. LEFT/RIGHT browse, Z/ENTER/tap plays; locked levels can't be started.
+import type { Keys } from "../input";
+import type { Scene } from "../scene";
+import type { SaveStore } from "../save";
+import type { TiledWorld } from "../tiled";
+import type { LevelEntry } from "../game/levelManifest";
+import { renderLevelThumb } from "./levelThumb";
+
+const THUMB_W = 112;
+const THUMB_H = 64;
+
+// 3x5 glyphs, MSB->left pixel, 5 rows.
+const G: Record<string, number[]> = {
+  " ": [0, 0, 0, 0, 0],
+
+  "0": [0b111, 0b101, 0b101, 0b101, 0b111],
+  "1": [0b010, 0b110, 0b010, 0b010, 0b111],
+  "2": [0b111, 0b001, 0b111, 0b100, 0b111],
+  "3": [0b111, 0b001, 0b111, 0b001, 0b111],
+  "4": [0b101, 0b101, 0b111, 0b001, 0b001],
+  "5": [0b111, 0b100, 0b111, 0b001, 0b111],
+  "6": [0b111, 0b100, 0b111, 0b101, 0b111],
+  "7": [0b111, 0b001, 0b001, 0b001, 0b001],
+  "8": [0b111, 0b101, 0b111, 0b101, 0b111],
+  "9": [0b111, 0b101, 0b111, 0b001, 0b111],
+
+  "!": [0b010, 0b010, 0b010, 0b000, 0b010],
+  ".": [0b000, 0b000, 0b000, 0b000, 0b010],
+  ":": [0b000, 0b010, 0b000, 0b010, 0b000],
+  "-": [0b000, 0b000, 0b111, 0b000, 0b000],
+  "/": [0b001, 0b001, 0b010, 0b100, 0b100],
+  "<": [0b001, 0b010, 0b100, 0b010, 0b001],
+  ">": [0b100, 0b010, 0b001, 0b010, 0b100],
+  "?": [0b111, 0b001, 0b010, 0b000, 0b010],
+  "'": [0b010, 0b010, 0b000, 0b000, 0b000],
+
+  A: [0b010, 0b101, 0b111, 0b101, 0b101],
+  B: [0b110, 0b101, 0b110, 0b101, 0b110],
+  C: [0b011, 0b100, 0b100, 0b100, 0b011],
+  D: [0b110, 0b101, 0b101, 0b101, 0b110],
+  E: [0b111, 0b100, 0b110, 0b100, 0b111],
+  F: [0b111, 0b100, 0b110, 0b100, 0b100],
+  G: [0b011, 0b100, 0b101, 0b101, 0b011],
+  H: [0b101, 0b101, 0b111, 0b101, 0b101],
+  I: [0b111, 0b010, 0b010, 0b010, 0b111],
+  J: [0b111, 0b001, 0b001, 0b101, 0b010],
+  K: [0b101, 0b110, 0b100, 0b110, 0b101],
+  L: [0b100, 0b100, 0b100, 0b100, 0b111],
+  M: [0b101, 0b111, 0b111, 0b101, 0b101],
+  N: [0b101, 0b111, 0b111, 0b111, 0b101],
+  O: [0b010, 0b101, 0b101, 0b101, 0b010],
+  P: [0b110, 0b101, 0b110, 0b100, 0b100],
+  Q: [0b010, 0b101, 0b101, 0b111, 0b011],
+  R: [0b110, 0b101, 0b110, 0b101, 0b101],
+  S: [0b011, 0b100, 0b010, 0b001, 0b110],
+  T: [0b111, 0b010, 0b010, 0b010, 0b010],
+  U: [0b101, 0b101, 0b101, 0b101, 0b111],
+  V: [0b101, 0b101, 0b101, 0b101, 0b010],
+  W: [0b101, 0b101, 0b111, 0b111, 0b101],
+  X: [0b101, 0b101, 0b010, 0b101, 0b101],
+  Y: [0b101, 0b101, 0b010, 0b010, 0b010],
+  Z: [0b111, 0b001, 0b010, 0b100, 0b111],
+};
+
+const textWidth = (text: string) => (text.length ? text.length * 4 - 1 : 0);
+
+function drawText(ctx: CanvasRenderingContext2D, text: string, x: number, y: number) {
+  text = text.toUpperCase();
+  x |= 0;
+  y |= 0;
+  for (let i = 0; i < text.length; i++) {
+    const rows = G[text[i]] ?? G[" "];
+    for (let ry = 0; ry < 5; ry++) {
+      const bits = rows[ry] | 0;
+      if (bits & 0b100) ctx.fillRect(x, y + ry, 1, 1);
+      if (bits & 0b010) ctx.fillRect(x + 1, y + ry, 1, 1);
+      if (bits & 0b001) ctx.fillRect(x + 2, y + ry, 1, 1);
+    }
+    x += 4;
+  }
+}
+
+function drawTextCentered(ctx: CanvasRenderingContext2D, text: string, cx: number, y: number, maxW: number) {
+  const maxChars = ((maxW + 1) / 4) | 0;
+  if (text.length > maxChars) text = text.slice(0, Math.max(0, maxChars - 2)) + "..";
+  drawText(ctx, text, cx - (textWidth(text) >> 1), y);
+}
+
+// m:ss.t
+function formatTime(sec: number) {
+  const tenths = Math.round(sec * 10) | 0;
+  const m = (tenths / 600) | 0;
+  const s = ((tenths / 10) | 0) % 60;
+  return `${m}:${s < 10 ? "0" : ""}${s}.${tenths % 10}`;
+}
+
+function fileTitle(url: string) {
+  const base = url.split(/[?#]/)[0].split("/").pop() || url;
+  return base.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ");
+}
+
+type Preview = { name: string; thumb: HTMLCanvasElement } | "loading" | "failed";
+
+export function createLevelSelectScene(opts: {
+  keys: Keys;
+  getTap: () => boolean;
+  levels: readonly LevelEntry[];
+  initial: number;
+  isUnlocked(i: number): boolean;
+  save: SaveStore;
+  loadPreview(i: number): Promise<TiledWorld>;
+  play(i: number): void;
+}): Scene {
+  const { keys, save, levels } = opts;
+  const count = levels.length | 0;
+
+  let sel = Math.max(0, Math.min(count - 1, opts.initial | 0));
+  let t = 0;
+
+  // previews load one at a time, the selected level first
+  const previews = new Map<number, Preview>();
+  let loadingAny = false;
+
+  // edge-triggered input; ignore whatever was held when the scene opened
+  let armed = false;
+  const prev = { left: false, right: false, a: false, start: false };
+
+  function pumpPreviews() {
+    if (loadingAny || !count) return;
+    const want = [sel, (sel + 1) % count, (sel - 1 + count) % count];
+    const i = want.find((j) => !previews.has(j));
+    if (i == null) return;
+
+    loadingAny = true;
+    previews.set(i, "loading");
+    opts
+      .loadPreview(i)
+      .then((w) => {
+        const name = levels[i].title || (w.map.props["title"] || "").trim() || fileTitle(levels[i].map);
+        previews.set(i, { name, thumb: renderLevelThumb(w, THUMB_W - 4, THUMB_H - 4) });
+      })
+      .catch((err) => {
+        console.error(err);
+        previews.set(i, "failed");
+      })
+      .finally(() => {
+        loadingAny = false;
+      });
+  }
+
+  return {
+    update(dt: number) {
+      t += dt;
+      pumpPreviews();
+
+      const tap = opts.getTap();
+      const down = { left: keys.left, right: keys.right, a: keys.a, start: keys.start };
+
+      if (!armed) {
+        armed = !down.left && !down.right && !down.a && !down.start && !tap;
+        Object.assign(prev, down);
+        return;
+      }
+
+      if (down.left && !prev.left && count) sel = (sel - 1 + count) % count;
+      if (down.right && !prev.right && count) sel = (sel + 1) % count;
+
+      const go = tap || (down.a && !prev.a) || (down.start && !prev.start);
+      Object.assign(prev, down);
+
+      if (go && count && opts.isUnlocked(sel)) opts.play(sel);
+    },
+
+    draw(offCtx: CanvasRenderingContext2D, vw: number, vh: number) {
+      offCtx.fillStyle = "#000";
+      offCtx.fillRect(0, 0, vw, vh);
+      offCtx.fillStyle = "#fff";
+
+      const cx = (vw * 0.5) | 0;
+      drawTextCentered(offCtx, levels[sel]?.chapter || "SELECT LEVEL", cx, 6, vw);
+
+      if (!count) {
+        drawTextCentered(offCtx, "NO LEVELS", cx, (vh >> 1) - 2, vw);
+        return;
+      }
+
+      const blink = ((t * 3) | 0) & 1;
+      drawTextCentered(offCtx, `${blink ? "<" : " "} ${sel + 1}/${count} ${blink ? ">" : " "}`, cx, 16, vw);
+
+      // thumbnail frame
+      const bx = ((vw - THUMB_W) >> 1) | 0;
+      const by = 26;
+      offCtx.fillRect(bx, by, THUMB_W, 1);
+      offCtx.fillRect(bx, by + THUMB_H - 1, THUMB_W, 1);
+      offCtx.fillRect(bx, by, 1, THUMB_H);
+      offCtx.fillRect(bx + THUMB_W - 1, by, 1, THUMB_H);
+
+      const entry = levels[sel];
+      const unlocked = opts.isUnlocked(sel);
+      const p = previews.get(sel);
+      const midY = by + (THUMB_H >> 1) - 2;
+
+      if (!unlocked) drawTextCentered(offCtx, "LOCKED", cx, midY, THUMB_W - 8);
+      else if (p && typeof p === "object") offCtx.drawImage(p.thumb, bx + 2, by + 2);
+      else if (p === "failed") drawTextCentered(offCtx, "CAN'T LOAD", cx, midY, THUMB_W - 8);
+      else if (blink) drawTextCentered(offCtx, "LOADING...", cx, midY, THUMB_W - 8);
+
+      // details
+      const name = p && typeof p === "object" ? p.name : entry.title || fileTitle(entry.map);
+      drawTextCentered(offCtx, unlocked ? name : "???", cx, by + THUMB_H + 8, vw - 8);
+
+      const rec = save.data.levels[entry.id];
+      const state = !unlocked ? "LOCKED" : rec?.completed ? "CLEAR" : "NEW";
+      const best = rec?.bestTimeSec != null ? `  BEST ${formatTime(rec.bestTimeSec)}` : "";
+      drawTextCentered(offCtx, state + best, cx, by + THUMB_H + 18, vw - 8);
+
+      const extra: string[] = [];
+      if (entry.parSec != null) extra.push(`PAR ${formatTime(entry.parSec)}`);
+      if (rec?.deaths) extra.push(`DEATHS ${rec.deaths}`);
+      if (extra.length) drawTextCentered(offCtx, extra.join("  "), cx, by + THUMB_H + 27, vw - 8);
+
+      if (unlocked) drawTextCentered(offCtx, "Z / ENTER TO PLAY", cx, vh - 10, vw);
+    },
+  };
+}
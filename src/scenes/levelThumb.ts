@@ -0,0 +1,41 @@
+// src/scenes/levelThumb.ts
+// 1-bit level thumbnail straight from map data: solid (collide) cells white,
+// decor-only (tile) cells a 50% checker, empty cells black. Aspect is kept, centred.
+import { GID_MASK, type TiledWorld } from "../tiled";
+
+export function renderLevelThumb(world: TiledWorld, w: number, h: number): HTMLCanvasElement {
+  const { map } = world;
+  const c = document.createElement("canvas");
+  c.width = w;
+  c.height = h;
+  const ctx = c.getContext("2d")!;
+
+  const img = ctx.createImageData(w, h);
+  const px = img.data;
+  for (let i = 3; i < px.length; i += 4) px[i] = 255; // opaque black
+
+  // cells per thumbnail pixel (same on both axes so the level isn't squashed)
+  const scale = Math.max(map.w / w, map.h / h, 1e-6);
+  const dw = Math.min(w, Math.ceil(map.w / scale)) | 0;
+  const dh = Math.min(h, Math.ceil(map.h / scale)) | 0;
+  const ox = ((w - dw) >> 1) | 0;
+  const oy = ((h - dh) >> 1) | 0;
+
+  for (let y = 0; y < dh; y++) {
+    const ty = Math.min(map.h - 1, (y * scale) | 0);
+    for (let x = 0; x < dw; x++) {
+      const tx = Math.min(map.w - 1, (x * scale) | 0);
+      const i = ty * map.w + tx;
+
+      const solid = (map.collide[i] & GID_MASK) !== 0;
+      const decor = (map.tile[i] & GID_MASK) !== 0;
+      if (!solid && !(decor && ((x + y) & 1) === 0)) continue;
+
+      const o = ((oy + y) * w + ox + x) * 4;
+      px[o] = px[o + 1] = px[o + 2] = 255;
+    }
+  }
+
+  ctx.putImageData(img, 0, 0);
+  return c;
+}
@@ -1,10 +1,104 @@
 // src/tiled.ts
+import {
+  type ChunkedLayer,
+  type TileChunk,
+  buildLayerMeta,
+  decodeLayerText,
+  stitchChunkedLayers,
+} from "./tiled/layerData";
+import { offsetImageLayers, offsetObjects, uiTriggersFromObjects } from "./tiled/objects";
+import { type TiledObjectTypes, applyObjectTypeDefaults, parseObjectTypes } from "./tiled/objectTypes";
+import { isJsonMapUrl, isJsonTemplateUrl, isJsonTilesetUrl, parseTj, parseTmj, parseTsj } from "./tiled/tmj";
+import { resolveVirtualUrl } from "./tiled/virtualFiles";
+import { type WorldMapRef, parseWorldFile } from "./tiled/world";
+import type {
+  ParsedFrame,
+  ParsedImageLayer,
+  ParsedLayer,
+  ParsedMap,
+  ParsedTemplate,
+  ParsedTile,
+  ParsedTileset,
+  ParsedTilesetRef,
+  TemplateResolver,
+} from "./tiled/types";
+
+export { isWorldUrl, type WorldMapRef } from "./tiled/world";
+export type { TiledObjectTypes } from "./tiled/objectTypes";
+
+export type LoadTiledOpts = {
+  // class defaults (see loadTiledObjectTypes), applied under each object's own properties
+  objectTypes?: TiledObjectTypes | null;
+  // dev hot reload: appended as ?t=<bust> to every file and image the load fetches, so the
+  // browser can't hand back its cached copy (or already-decoded image) of an edited file
+  bust?: string;
+};
+
 export type UiTrigger = {
   msg: string;
-  // polygon points in world pixels (absolute)
+
+  // rect | ellipse (fills aabb) | polygon | polyline (thick segments) | point (circle)
+  shape: TiledObjectShape;
+
+  // polygon/polyline points, or the 4 rect corners, in world pixels (absolute); else empty
   pts: { x: number; y: number }[];
-  // quick reject in world pixels
+
+  // point: radius, polyline: half-thickness (px); 0 for area shapes
+  r: number;
+
+  // quick reject in world pixels (ellipse/point: their bounds)
   aabb: { x: number; y: number; w: number; h: number };
+
+  // the object's properties (msg plus any trigger actions, see game/triggers.ts)
+  props: Record<string, string>;
+};
+
+export type TiledObjectShape = "rect" | "point" | "ellipse" | "polygon" | "polyline";
+
+// Generic object-layer object (pixel units, world space). Gameplay modules interpret these by layer/type.
+export type TiledObject = {
+  id: number;
+  name: string;
+  type: string; // Tiled "class" (1.9+) or legacy "type"
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+
+  // tile objects: raw gid incl. flip flags (Tiled anchors these at bottom-left), else 0
+  gid: number;
+
+  shape: TiledObjectShape;
+  // polygon/polyline points, relative to (x,y)
+  pts: { x: number; y: number }[];
+
+  props: Record<string, string>;
+};
+
+// Per-layer render settings. Only affects drawing; collision reads hidden layers too.
+export type TiledLayerMeta = {
+  visible: boolean; // Tiled's eye toggle, or a "hidden" bool property
+  opacity: number; // 0..1
+  props: Record<string, string>;
+};
+
+// <imagelayer>: one picture drawn behind the tiles, scrolled by its parallax factor.
+export type TiledImageLayer = {
+  name: string;
+  img: HTMLImageElement;
+
+  // offset in world pixels
+  x: number;
+  y: number;
+
+  // 1 = scrolls with the tiles, 0 = fixed to the screen
+  parallaxX: number;
+  parallaxY: number;
+
+  repeatX: boolean;
+  repeatY: boolean;
+
+  meta: TiledLayerMeta;
 };
 
 export type TiledMap = {
@@ -13,22 +107,32 @@ export type TiledMap = {
   tw: number;
   th: number;
 
-  // Named layers (CSV gids, includes flags)
+  // map-level custom properties (e.g. title, music, background, gravity)
+  props: Record<string, string>;
+
+  // Named layers (decoded gids, includes flags)
   layers: Record<string, Uint32Array>;
+  layerMeta: Record<string, TiledLayerMeta>;
 
   // Convenience handles
   tile: Uint32Array;
   collide: Uint32Array;
   spawns: Uint32Array;
 
+  // image layers in document order (drawn back to front)
+  imageLayers: TiledImageLayer[];
+
   // ui polygon triggers
   ui: UiTrigger[];
+
+  // every object layer by name (e.g. "entities"), in document order
+  objects: Record<string, TiledObject[]>;
 };
 
 export type TileMask = {
-  // one u32 per row; bit x set => solid pixel
-  // NOTE: only supports tiles up to 32px wide
+  // `stride` u32 words per row (ceil(w/32)); bit (x & 31) of word (x >> 5) set => solid pixel
   rows: Uint32Array;
+  stride: number;
   w: number;
   h: number;
 };
@@ -43,13 +147,36 @@ export type TileSet = {
 
   // Pixel masks for each local tile id (0..tilecount-1)
   masks: TileMask[];
+
+  // Tile semantics from TSX/TSJ <tile> properties, by local tile id (0..tilecount-1).
+  // tileClass[i] is "" for plain art; tileProps[i] is null when the tile declares nothing.
+  tileClass: string[];
+  tileProps: (Record<string, string> | null)[];
+
+  // Tile animations from TSX/TSJ <animation>, by local tile id; null => static.
+  anims: (TileAnim | null)[];
+};
+
+export type TileAnim = {
+  // local tile ids shown in sequence, and when each frame ends (ms, cumulative)
+  frames: Uint16Array;
+  ends: Float64Array;
+  totalMs: number;
 };
 
-export type TiledWorld = { map: TiledMap; ts: TileSet };
+export type TiledWorld = {
+  map: TiledMap;
+
+  // All tilesets, ascending by firstgid (gid-range lookup via tilesetForGid)
+  tilesets: TileSet[];
 
-const FLIP_H = 0x80000000 >>> 0;
-const FLIP_V = 0x40000000 >>> 0;
-const FLIP_D = 0x20000000 >>> 0;
+  // Primary tileset (the first one). Gameplay local indexes are relative to this.
+  ts: TileSet;
+};
+
+export const FLIP_H = 0x80000000 >>> 0;
+export const FLIP_V = 0x40000000 >>> 0;
+export const FLIP_D = 0x20000000 >>> 0;
 export const GID_MASK = 0x1fffffff >>> 0;
 
 // -----------------------------------------------------------------------------
@@ -59,7 +186,9 @@ const SOLID_LIGHT_LUMA = 190;
 const SOLID_DARK_LUMA = 70;
 const TILE_ALPHA_CUTOFF = 8;
 
-const joinUrl = (b: string, r: string) => new URL(r, new URL(b, location.href)).toString();
+// dropped files (blob URLs) resolve inside their bundle, see tiled/virtualFiles.ts
+const joinUrl = (b: string, r: string) =>
+  resolveVirtualUrl(b, r) ?? new URL(r, new URL(b, location.href)).toString();
 
 function parseXml(txt: string): Document {
   const doc = new DOMParser().parseFromString(txt, "application/xml");
@@ -71,6 +200,15 @@ function attrInt(el: Element, name: string, def = 0): number {
   const n = s ? parseInt(s, 10) : def;
   return (n | 0) || def;
 }
+// blob URLs (dropped files) are never stale and break with a query
+function bustUrl(url: string, opts: LoadTiledOpts) {
+  if (!opts.bust || url.startsWith("blob:")) return url;
+  const hash = url.indexOf("#");
+  const path = hash < 0 ? url : url.slice(0, hash);
+  const frag = hash < 0 ? "" : url.slice(hash);
+  return `${path}${path.includes("?") ? "&" : "?"}t=${encodeURIComponent(opts.bust)}${frag}`;
+}
+
 function loadImage(url: string): Promise<HTMLImageElement> {
   return new Promise((res, rej) => {
     const img = new Image();
@@ -81,47 +219,64 @@ function loadImage(url: string): Promise<HTMLImageElement> {
   });
 }
 
-function parseCsvToU32(csv: string, expected: number): Uint32Array {
+// Legacy XML form: one <tile gid="..."/> per cell (missing gid => empty).
+function parseXmlTiles(dataEl: Element, expected: number): Uint32Array {
   const out = new Uint32Array(expected);
-  let n = 0,
-    v = 0,
-    inNum = false;
-
-  for (let i = 0; i < csv.length; i++) {
-    const c = csv.charCodeAt(i);
-    if (c >= 48 && c <= 57) {
-      v = v * 10 + (c - 48);
-      inNum = true;
-    } else if (inNum) {
-      out[n++] = v >>> 0;
-      if (n === expected) return out;
-      v = 0;
-      inNum = false;
-    }
+  const tiles = dataEl.getElementsByTagName("tile");
+  const n = Math.min(expected, tiles.length);
+  for (let i = 0; i < n; i++) {
+    const s = tiles[i].getAttribute("gid");
+    out[i] = s ? Number(s) >>> 0 : 0;
   }
-
-  if (inNum && n < expected) out[n++] = v >>> 0;
   return out;
 }
 
-function getLayerData(layerEl: Element, w: number, h: number): Uint32Array {
+function decodeXmlPayload(el: Element, encoding: string, compression: string, expected: number) {
+  if (!encoding) return Promise.resolve(parseXmlTiles(el, expected));
+  return decodeLayerText(el.textContent || "", encoding, compression, expected);
+}
+
+function getLayerDataEl(layerEl: Element) {
   const dataEl = layerEl.getElementsByTagName("data")[0];
   if (!dataEl) throw new Error("TMX: <layer> missing <data>");
-  if (dataEl.getAttribute("encoding") !== "csv") throw new Error("TMX: expected CSV encoding");
-  const csv = (dataEl.textContent || "").trim();
-  return parseCsvToU32(csv, w * h);
+  const encoding = (dataEl.getAttribute("encoding") || "").trim();
+  const compression = (dataEl.getAttribute("compression") || "").trim();
+  return { dataEl, encoding, compression };
+}
+
+async function getLayerData(layerEl: Element, w: number, h: number): Promise<Uint32Array> {
+  const { dataEl, encoding, compression } = getLayerDataEl(layerEl);
+  return decodeXmlPayload(dataEl, encoding, compression, w * h);
+}
+
+// infinite="1": <data> holds <chunk x y width height> elements in the same encoding
+async function getLayerChunks(layerEl: Element): Promise<TileChunk[]> {
+  const { dataEl, encoding, compression } = getLayerDataEl(layerEl);
+  const out: TileChunk[] = [];
+  for (const chunkEl of Array.from(dataEl.getElementsByTagName("chunk"))) {
+    const x = attrInt(chunkEl, "x");
+    const y = attrInt(chunkEl, "y");
+    const w = attrInt(chunkEl, "width");
+    const h = attrInt(chunkEl, "height");
+    if (w <= 0 || h <= 0) continue;
+    out.push({ x, y, w, h, data: await decodeXmlPayload(chunkEl, encoding, compression, w * h) });
+  }
+  return out;
 }
 
 // -----------------------------------------------------------------------------
-// Object layer parsing (ui polygons)
+// Object layer parsing
 // -----------------------------------------------------------------------------
 function readProperties(el: Element): Record<string, string> {
   const out: Record<string, string> = {};
-  const propsEl = el.getElementsByTagName("properties")[0];
+  // direct child only: nested elements (tile collision objects, child layers) have their own
+  const propsEl = Array.from(el.children).find((c) => c.tagName === "properties");
   if (!propsEl) return out;
 
-  const props = Array.from(propsEl.getElementsByTagName("property"));
-  for (const p of props) {
+  // direct <property> children only: class-typed values nest their members, which have no
+  // flat string form (TMJ skips them the same way)
+  for (const p of Array.from(propsEl.children)) {
+    if (p.tagName !== "property" || p.getAttribute("type") === "class") continue;
     const name = (p.getAttribute("name") || "").trim();
     if (!name) continue;
     const value = p.getAttribute("value");
@@ -145,54 +300,106 @@ function parsePoints(pointsStr: string): { x: number; y: number }[] {
   return pts;
 }
 
-function aabbFromPts(pts: { x: number; y: number }[]) {
-  let minX = Infinity,
-    minY = Infinity,
-    maxX = -Infinity,
-    maxY = -Infinity;
-  for (const p of pts) {
-    if (p.x < minX) minX = p.x;
-    if (p.y < minY) minY = p.y;
-    if (p.x > maxX) maxX = p.x;
-    if (p.y > maxY) maxY = p.y;
+// `tpl`: the object's template (if any); attributes/shape/properties the instance omits come from it.
+function parseTmxObject(obj: Element, tpl: TiledObject | null = null): TiledObject {
+  let shape: TiledObjectShape = tpl?.shape ?? "rect";
+  let pts: { x: number; y: number }[] = tpl ? tpl.pts.map((p) => ({ ...p })) : [];
+
+  for (const c of Array.from(obj.children)) {
+    if (c.tagName === "point" || c.tagName === "ellipse") {
+      shape = c.tagName;
+      pts = [];
+    } else if (c.tagName === "polygon" || c.tagName === "polyline") {
+      shape = c.tagName;
+      pts = parsePoints(c.getAttribute("points") || "");
+    }
   }
-  if (!Number.isFinite(minX)) return { x: 0, y: 0, w: 0, h: 0 };
-  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
-}
 
-function parseUiObjectLayer(tmx: Document): UiTrigger[] {
-  const out: UiTrigger[] = [];
+  const num = (name: string, def: number) => (obj.hasAttribute(name) ? Number(obj.getAttribute(name)) || 0 : def);
+  const hasType = obj.hasAttribute("class") || obj.hasAttribute("type");
 
-  const groups = Array.from(tmx.getElementsByTagName("objectgroup"));
-  for (const g of groups) {
-    const name = (g.getAttribute("name") || "").trim();
-    if (name !== "ui") continue;
+  return {
+    id: attrInt(obj, "id"),
+    name: obj.hasAttribute("name") ? (obj.getAttribute("name") || "").trim() : (tpl?.name ?? ""),
+    type: hasType ? (obj.getAttribute("class") || obj.getAttribute("type") || "").trim() : (tpl?.type ?? ""),
+    x: num("x", 0),
+    y: num("y", 0),
+    w: num("width", tpl?.w ?? 0),
+    h: num("height", tpl?.h ?? 0),
+    gid: obj.hasAttribute("gid") ? Number(obj.getAttribute("gid")) >>> 0 : (tpl?.gid ?? 0),
+    shape,
+    pts,
+    props: { ...tpl?.props, ...readProperties(obj) },
+  };
+}
 
-    const objects = Array.from(g.getElementsByTagName("object"));
-    for (const obj of objects) {
-      const props = readProperties(obj);
-      const msg = (props["msg"] || "").trim();
-      if (!msg) continue;
+function parseImageLayers(tmx: Document): ParsedImageLayer[] {
+  const out: ParsedImageLayer[] = [];
+  for (const el of Array.from(tmx.getElementsByTagName("imagelayer"))) {
+    const image = (el.getElementsByTagName("image")[0]?.getAttribute("source") || "").trim();
+    if (!image) continue;
+
+    out.push({
+      name: (el.getAttribute("name") || "").trim(),
+      image,
+      x: Number(el.getAttribute("offsetx") ?? 0) || 0,
+      y: Number(el.getAttribute("offsety") ?? 0) || 0,
+      parallaxX: Number(el.getAttribute("parallaxx") ?? 1),
+      parallaxY: Number(el.getAttribute("parallaxy") ?? 1),
+      repeatX: el.getAttribute("repeatx") === "1",
+      repeatY: el.getAttribute("repeaty") === "1",
+      meta: buildLayerMeta(
+        el.getAttribute("visible") !== "0",
+        Number(el.getAttribute("opacity") ?? 1),
+        readProperties(el)
+      ),
+    });
+  }
+  return out;
+}
 
-      const ox = Number(obj.getAttribute("x") || "0");
-      const oy = Number(obj.getAttribute("y") || "0");
-      if (!Number.isFinite(ox) || !Number.isFinite(oy)) continue;
+// <objectgroup>s of the map itself and its <group> layers, in document order; the ones inside
+// inline <tileset><tile> elements are per-tile collision shapes, not map objects
+function mapObjectGroupEls(el: Element, out: Element[] = []): Element[] {
+  for (const c of Array.from(el.children)) {
+    if (c.tagName === "objectgroup") out.push(c);
+    else if (c.tagName === "group") mapObjectGroupEls(c, out);
+  }
+  return out;
+}
 
-      const polyEl = obj.getElementsByTagName("polygon")[0];
-      if (!polyEl) continue;
+async function parseObjectGroups(
+  mapEl: Element,
+  resolveTemplate: TemplateResolver,
+  tilesets: ParsedTilesetRef[]
+): Promise<Record<string, TiledObject[]>> {
+  const out: Record<string, TiledObject[]> = {};
+  for (const g of mapObjectGroupEls(mapEl)) {
+    const name = (g.getAttribute("name") || "").trim();
+    const list = (out[name] ??= []);
+    for (const obj of Array.from(g.getElementsByTagName("object"))) {
+      const src = obj.getAttribute("template");
+      list.push(parseTmxObject(obj, src ? await resolveTemplate(src, tilesets) : null));
+    }
+  }
+  return out;
+}
 
-      const pointsStr = polyEl.getAttribute("points") || "";
-      const rel = parsePoints(pointsStr);
-      if (rel.length < 3) continue;
+// .tx: <template><tileset firstgid source/>?<object .../></template>
+function parseTx(doc: Document): ParsedTemplate {
+  const root = doc.getElementsByTagName("template")[0];
+  if (!root) throw new Error("TX: missing <template>");
 
-      const abs = rel.map((p) => ({ x: ox + p.x, y: oy + p.y }));
-      const aabb = aabbFromPts(abs);
+  const objEl = Array.from(root.children).find((c) => c.tagName === "object");
+  if (!objEl) throw new Error("TX: missing <object>");
 
-      out.push({ msg, pts: abs, aabb });
-    }
-  }
+  const tsEl = Array.from(root.children).find((c) => c.tagName === "tileset");
+  const source = tsEl?.getAttribute("source");
 
-  return out;
+  return {
+    object: parseTmxObject(objEl),
+    tileset: tsEl && source ? { firstgid: attrInt(tsEl, "firstgid"), source } : null,
+  };
 }
 
 // -----------------------------------------------------------------------------
@@ -203,8 +410,6 @@ function luma(r: number, g: number, b: number) {
 }
 
 function buildTileMasks(img: HTMLImageElement, tw: number, th: number, columns: number, tilecount: number): TileMask[] {
-  if (tw > 32) throw new Error(`Tile pixel masks require tilewidth <= 32 (got ${tw})`);
-
   const c = document.createElement("canvas");
   c.width = img.width;
   c.height = img.height;
@@ -218,6 +423,7 @@ function buildTileMasks(img: HTMLImageElement, tw: number, th: number, columns:
   const d = id.data;
 
   const masks: TileMask[] = new Array(tilecount);
+  const stride = (tw + 31) >>> 5;
 
   for (let t = 0; t < tilecount; t++) {
     const sx = (t % columns) * tw;
@@ -241,12 +447,12 @@ function buildTileMasks(img: HTMLImageElement, tw: number, th: number, columns:
     const avg = cnt ? sum / cnt : 0;
     const solidIsDark = avg < 128;
 
-    const rows = new Uint32Array(th);
+    const rows = new Uint32Array(th * stride);
     let anyBits = false;
 
     for (let y = 0; y < th; y++) {
-      let bits = 0 >>> 0;
       const py = sy + y;
+      const ro = y * stride;
 
       for (let x = 0; x < tw; x++) {
         const px = sx + x;
@@ -257,30 +463,28 @@ function buildTileMasks(img: HTMLImageElement, tw: number, th: number, columns:
 
         const L = luma(d[i] | 0, d[i + 1] | 0, d[i + 2] | 0);
         const solid = solidIsDark ? L <= SOLID_DARK_LUMA : L >= SOLID_LIGHT_LUMA;
-        if (solid) bits |= (1 << x) >>> 0;
+        if (solid) {
+          rows[ro + (x >>> 5)] |= 1 << (x & 31);
+          anyBits = true;
+        }
       }
-
-      rows[y] = bits >>> 0;
-      if (bits) anyBits = true;
     }
 
     if (!anyBits && cnt) {
       for (let y = 0; y < th; y++) {
-        let bits = 0 >>> 0;
         const py = sy + y;
+        const ro = y * stride;
 
         for (let x = 0; x < tw; x++) {
           const px = sx + x;
           const i = ((py * c.width + px) << 2);
           const a = d[i + 3] | 0;
-          if (a >= TILE_ALPHA_CUTOFF) bits |= (1 << x) >>> 0;
+          if (a >= TILE_ALPHA_CUTOFF) rows[ro + (x >>> 5)] |= 1 << (x & 31);
         }
-
-        rows[y] = bits >>> 0;
       }
     }
 
-    masks[t] = { rows, w: tw, h: th };
+    masks[t] = { rows, stride, w: tw, h: th };
   }
 
   return masks;
@@ -308,12 +512,48 @@ function mapFlippedUV(u: number, v: number, w: number, h: number, flags: number)
   return { uu, vv };
 }
 
-export function tileSolidPixel(ts: TileSet, gidRaw: number, u: number, v: number): boolean {
+// -----------------------------------------------------------------------------
+// Gid → tileset lookup (tilesets sorted by firstgid; maps rarely have more than a few)
+// -----------------------------------------------------------------------------
+export function tilesetForGid(tilesets: readonly TileSet[], gidRaw: number): TileSet | null {
   const gid = (gidRaw & GID_MASK) >>> 0;
-  if (gid === 0) return false;
+  if (gid === 0) return null;
+
+  for (let i = tilesets.length - 1; i >= 0; i--) {
+    const ts = tilesets[i];
+    if (gid < ts.firstgid) continue;
+    return gid - ts.firstgid < ts.tilecount ? ts : null;
+  }
+  return null;
+}
+
+/** Tile class ("spike", "door", ...) for a gid in any tileset; "" when untyped/empty. */
+export function tileClassOf(tilesets: readonly TileSet[], gidRaw: number): string {
+  const ts = tilesetForGid(tilesets, gidRaw);
+  if (!ts) return "";
+  return ts.tileClass[(((gidRaw & GID_MASK) >>> 0) - ts.firstgid) | 0];
+}
+
+/** Custom properties declared on a gid's tile, or null. */
+export function tilePropsOf(tilesets: readonly TileSet[], gidRaw: number): Record<string, string> | null {
+  const ts = tilesetForGid(tilesets, gidRaw);
+  if (!ts) return null;
+  return ts.tileProps[(((gidRaw & GID_MASK) >>> 0) - ts.firstgid) | 0];
+}
 
+/** 1-based local index of `gidRaw` inside `ts`, or 0 if the gid belongs to another tileset. */
+export function localIndexIn(ts: TileSet, gidRaw: number): number {
+  const gid = (gidRaw & GID_MASK) >>> 0;
+  if (gid === 0) return 0;
   const local = (gid - ts.firstgid) | 0;
-  if (local < 0 || local >= ts.tilecount) return false;
+  return local >= 0 && local < ts.tilecount ? local + 1 : 0;
+}
+
+export function tileSolidPixel(tilesets: readonly TileSet[], gidRaw: number, u: number, v: number): boolean {
+  const ts = tilesetForGid(tilesets, gidRaw);
+  if (!ts) return false;
+
+  const local = (((gidRaw & GID_MASK) >>> 0) - ts.firstgid) | 0;
 
   if (u < 0 || v < 0 || u >= ts.tw || v >= ts.th) return false;
 
@@ -323,84 +563,316 @@ export function tileSolidPixel(ts: TileSet, gidRaw: number, u: number, v: number
   if (uu < 0 || vv < 0 || uu >= ts.tw || vv >= ts.th) return false;
 
   const m = ts.masks[local];
-  return ((m.rows[vv] >>> uu) & 1) !== 0;
+  return ((m.rows[vv * m.stride + (uu >>> 5)] >>> (uu & 31)) & 1) !== 0;
 }
 
-export async function loadTiled(tmxUrl: string): Promise<TiledWorld> {
-  const tmxText = await (await fetch(tmxUrl)).text();
-  const tmx = parseXml(tmxText);
+// -----------------------------------------------------------------------------
+// TMX / TSX (XML)
+// -----------------------------------------------------------------------------
+function parseTsx(tsx: Document): ParsedTileset {
+  const tsxRoot = tsx.getElementsByTagName("tileset")[0];
+  if (!tsxRoot) throw new Error("TSX: missing <tileset>");
+  return parseTilesetEl(tsxRoot);
+}
 
-  const mapEl = tmx.getElementsByTagName("map")[0];
-  if (!mapEl) throw new Error("TMX: missing <map>");
+// Shared by external .tsx roots and tilesets embedded directly in a .tmx.
+function parseTilesetEl(tsxRoot: Element): ParsedTileset {
+  const imgEl = tsxRoot.getElementsByTagName("image")[0];
+  if (!imgEl) throw new Error("TSX: missing <image>");
 
-const w = attrInt(mapEl, "width");
-const h = attrInt(mapEl, "height");
-const tw = attrInt(mapEl, "tilewidth");
-const th = attrInt(mapEl, "tileheight");
+  const image = imgEl.getAttribute("source");
+  if (!image) throw new Error("TSX: image source missing");
 
-  const tilesetEl = tmx.getElementsByTagName("tileset")[0];
-  if (!tilesetEl) throw new Error("TMX: missing <tileset>");
+  return {
+    tw: attrInt(tsxRoot, "tilewidth"),
+    th: attrInt(tsxRoot, "tileheight"),
+    columns: attrInt(tsxRoot, "columns"),
+    tilecount: attrInt(tsxRoot, "tilecount"),
+    image,
+    tiles: parseTsxTiles(tsxRoot),
+  };
+}
 
-  const firstgid = attrInt(tilesetEl, "firstgid");
-  const tsxRel = tilesetEl.getAttribute("source");
-  if (!tsxRel) throw new Error("TMX: tileset source missing");
+// <tile id="75" type="spike"> / class="spike" (Tiled 1.9+) / <property name="type" value="spike"/>
+function parseTsxTiles(tsxRoot: Element): ParsedTile[] {
+  const out: ParsedTile[] = [];
+  for (const tileEl of Array.from(tsxRoot.children)) {
+    if (tileEl.tagName !== "tile") continue;
 
-  const tsxUrl = joinUrl(tmxUrl, tsxRel);
-  const tsxText = await (await fetch(tsxUrl)).text();
-  const tsx = parseXml(tsxText);
+    const props = readProperties(tileEl);
+    const cls = (props["type"] || tileEl.getAttribute("class") || tileEl.getAttribute("type") || "").trim();
 
-  const tsxRoot = tsx.getElementsByTagName("tileset")[0];
-  if (!tsxRoot) throw new Error("TSX: missing <tileset>");
+    const frames: ParsedFrame[] = [];
+    const animEl = Array.from(tileEl.children).find((c) => c.tagName === "animation");
+    if (animEl) {
+      for (const f of Array.from(animEl.getElementsByTagName("frame"))) {
+        frames.push({ tileid: attrInt(f, "tileid"), ms: attrInt(f, "duration") });
+      }
+    }
 
-const tsTw = attrInt(tsxRoot, "tilewidth");
-const tsTh = attrInt(tsxRoot, "tileheight");
-const columns = attrInt(tsxRoot, "columns");
-const tilecount = attrInt(tsxRoot, "tilecount");
+    if (!cls && !Object.keys(props).length && !frames.length) continue;
 
-  const imgEl = tsx.getElementsByTagName("image")[0];
-  if (!imgEl) throw new Error("TSX: missing <image>");
+    out.push({ id: attrInt(tileEl, "id"), cls, props, frames });
+  }
+  return out;
+}
+
+function parseTmxTilesetRef(tilesetEl: Element): ParsedTilesetRef {
+  const firstgid = attrInt(tilesetEl, "firstgid");
+  const source = tilesetEl.getAttribute("source");
+  if (source) return { firstgid, source, inline: null };
+
+  // embedded tileset: same shape as a .tsx root
+  return { firstgid, source: null, inline: parseTilesetEl(tilesetEl) };
+}
 
-  const imgRel = imgEl.getAttribute("source");
-  if (!imgRel) throw new Error("TSX: image source missing");
+async function parseTmx(tmx: Document, resolveTemplate: TemplateResolver): Promise<ParsedMap> {
+  const mapEl = tmx.getElementsByTagName("map")[0];
+  if (!mapEl) throw new Error("TMX: missing <map>");
 
-  const imgUrl = joinUrl(tsxUrl, imgRel);
-  const img = await loadImage(imgUrl);
+  let w = attrInt(mapEl, "width");
+  let h = attrInt(mapEl, "height");
+  const tw = attrInt(mapEl, "tilewidth");
+  const th = attrInt(mapEl, "tileheight");
+  const infinite = mapEl.getAttribute("infinite") === "1";
 
-  const masks = buildTileMasks(img, tsTw, tsTh, columns, tilecount);
+  // only direct children: embedded tilesets must not pick up nested elements
+  const tilesetEls = Array.from(mapEl.children).filter((el) => el.tagName === "tileset");
+  if (!tilesetEls.length) throw new Error("TMX: missing <tileset>");
 
   // --- Layers
-  const layers: Record<string, Uint32Array> = {};
+  let layers: ParsedLayer[] = [];
   const layerEls = Array.from(tmx.getElementsByTagName("layer"));
   if (!layerEls.length) throw new Error("TMX: missing <layer>");
 
-  let firstLayer: Uint32Array | null = null;
+  const layerName = (layerEl: Element, i: number) => (layerEl.getAttribute("name") || "").trim() || `layer${i}`;
+  const layerMeta = (layerEl: Element) =>
+    buildLayerMeta(
+      layerEl.getAttribute("visible") !== "0",
+      Number(layerEl.getAttribute("opacity") ?? 1),
+      readProperties(layerEl)
+    );
+
+  let originX = 0;
+  let originY = 0;
+
+  if (infinite) {
+    const chunked: ChunkedLayer[] = [];
+    for (let i = 0; i < layerEls.length; i++) {
+      chunked.push({
+        name: layerName(layerEls[i], i),
+        chunks: await getLayerChunks(layerEls[i]),
+        meta: layerMeta(layerEls[i]),
+      });
+    }
 
-  for (const layerEl of layerEls) {
-    const name = (layerEl.getAttribute("name") || "").trim() || `layer${Object.keys(layers).length}`;
-    const data = getLayerData(layerEl, w, h);
-    layers[name] = data;
-    if (!firstLayer) firstLayer = data;
+    const st = stitchChunkedLayers(chunked);
+    ({ w, h, originX, originY, layers } = st);
+  } else {
+    for (let i = 0; i < layerEls.length; i++) {
+      layers.push({
+        name: layerName(layerEls[i], i),
+        data: await getLayerData(layerEls[i], w, h),
+        meta: layerMeta(layerEls[i]),
+      });
+    }
   }
 
-  const tile = layers["tile"] ?? firstLayer!;
+  const tilesets = tilesetEls.map(parseTmxTilesetRef);
+
+  // object layers (re-based onto the stitched grid for infinite maps)
+  const objects = await parseObjectGroups(mapEl, resolveTemplate, tilesets);
+  offsetObjects(objects, -originX * tw, -originY * th);
+
+  const imageLayers = parseImageLayers(tmx);
+  offsetImageLayers(imageLayers, -originX * tw, -originY * th);
+
+  return {
+    w,
+    h,
+    tw,
+    th,
+    props: readProperties(mapEl),
+    layers,
+    imageLayers,
+    objects,
+    tilesets,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Format-neutral assembly (TMX + TMJ share everything below the parse)
+// -----------------------------------------------------------------------------
+async function loadTileSet(ref: ParsedTilesetRef, mapUrl: string, opts: LoadTiledOpts): Promise<TileSet> {
+  let def: ParsedTileset;
+  let baseUrl = mapUrl;
+
+  if (ref.inline) {
+    def = ref.inline;
+  } else {
+    const tsUrl = joinUrl(mapUrl, ref.source!);
+    const res = await fetch(bustUrl(tsUrl, opts));
+    def = isJsonTilesetUrl(tsUrl) ? parseTsj(await res.json()) : parseTsx(parseXml(await res.text()));
+    baseUrl = tsUrl;
+  }
+
+  const img = await loadImage(bustUrl(joinUrl(baseUrl, def.image), opts));
+  const masks = buildTileMasks(img, def.tw, def.th, def.columns, def.tilecount);
+
+  const tileClass: string[] = new Array(def.tilecount).fill("");
+  const tileProps: (Record<string, string> | null)[] = new Array(def.tilecount).fill(null);
+  const anims: (TileAnim | null)[] = new Array(def.tilecount).fill(null);
+  for (const t of def.tiles) {
+    if (t.id < 0 || t.id >= def.tilecount) continue;
+    tileClass[t.id] = t.cls;
+    tileProps[t.id] = t.props;
+    anims[t.id] = buildTileAnim(t.frames, def.tilecount);
+  }
+
+  return {
+    firstgid: ref.firstgid,
+    img,
+    columns: def.columns,
+    tilecount: def.tilecount,
+    tw: def.tw,
+    th: def.th,
+    masks,
+    tileClass,
+    tileProps,
+    anims,
+  };
+}
+
+function buildTileAnim(frames: ParsedFrame[], tilecount: number): TileAnim | null {
+  const valid = frames.filter((f) => f.tileid >= 0 && f.tileid < tilecount && f.ms > 0);
+  if (!valid.length) return null;
+
+  const ids = new Uint16Array(valid.length);
+  const ends = new Float64Array(valid.length);
+  let acc = 0;
+  for (let i = 0; i < valid.length; i++) {
+    ids[i] = valid[i].tileid;
+    acc += valid[i].ms;
+    ends[i] = acc;
+  }
+  return { frames: ids, ends, totalMs: acc };
+}
+
+// Local tile id to draw for `local` at time `tSec` (identity for static tiles).
+function animatedLocal(ts: TileSet, local: number, tSec: number): number {
+  const a = ts.anims[local];
+  if (!a) return local;
+
+  const ms = (tSec * 1000) % a.totalMs;
+  for (let i = 0; i < a.ends.length; i++) if (ms < a.ends[i]) return a.frames[i];
+  return a.frames[a.frames.length - 1];
+}
+
+// Templates are cached per map load; tile templates get their gid moved into the map's numbering.
+function createTemplateResolver(mapUrl: string, opts: LoadTiledOpts): TemplateResolver {
+  const cache = new Map<string, Promise<ParsedTemplate>>();
+
+  return async (source, tilesets) => {
+    const url = joinUrl(mapUrl, source);
+    let pending = cache.get(url);
+    if (!pending) cache.set(url, (pending = loadTemplate(url, opts)));
+    const tpl = await pending;
+
+    const obj = tpl.object;
+    if (!obj.gid || !tpl.tileset) return obj;
+
+    const tsUrl = joinUrl(url, tpl.tileset.source);
+    const ref = tilesets.find((t) => t.source && joinUrl(mapUrl, t.source) === tsUrl);
+    if (!ref) throw new Error(`Tiled: template "${source}" uses a tileset the map does not`);
+
+    const flags = (obj.gid & ~GID_MASK) >>> 0;
+    const gid = ((obj.gid & GID_MASK) - tpl.tileset.firstgid + ref.firstgid) >>> 0;
+    return { ...obj, gid: (gid | flags) >>> 0 };
+  };
+}
+
+async function loadTemplate(url: string, opts: LoadTiledOpts): Promise<ParsedTemplate> {
+  const res = await fetch(bustUrl(url, opts));
+  return isJsonTemplateUrl(url) ? parseTj(await res.json()) : parseTx(parseXml(await res.text()));
+}
+
+function assembleMap(p: ParsedMap, imageLayers: TiledImageLayer[]): TiledMap {
+  const { w, h } = p;
+
+  const layers: Record<string, Uint32Array> = {};
+  const layerMeta: Record<string, TiledLayerMeta> = {};
+  for (const l of p.layers) {
+    layers[l.name] = l.data;
+    layerMeta[l.name] = l.meta;
+  }
+
+  const tile = layers["tile"] ?? p.layers[0].data;
   const collide = layers["collide"] ?? new Uint32Array(w * h);
   const spawns = layers["spawns"] ?? new Uint32Array(w * h);
 
-  // UI triggers from object layer
-  const ui = parseUiObjectLayer(tmx);
-
   return {
-    map: { w, h, tw, th, layers, tile, collide, spawns, ui },
-    ts: { firstgid, img, columns, tilecount, tw: tsTw, th: tsTh, masks },
+    w,
+    h,
+    tw: p.tw,
+    th: p.th,
+    props: p.props,
+    layers,
+    layerMeta,
+    imageLayers,
+    tile,
+    collide,
+    spawns,
+    ui: uiTriggersFromObjects(p.objects["ui"]),
+    objects: p.objects,
   };
 }
 
-export function drawTile(ctx: CanvasRenderingContext2D, ts: TileSet, gidRaw: number, dx: number, dy: number) {
-  const gid = (gidRaw & GID_MASK) >>> 0;
-  if (gid === 0) return;
+/** Load a Tiled map. `.tmj`/`.json` use the JSON parser; anything else is treated as TMX. */
+export async function loadTiled(mapUrl: string, opts: LoadTiledOpts = {}): Promise<TiledWorld> {
+  const res = await fetch(bustUrl(mapUrl, opts));
+  const resolveTemplate = createTemplateResolver(mapUrl, opts);
+  const parsed = isJsonMapUrl(mapUrl)
+    ? await parseTmj(await res.json(), resolveTemplate)
+    : await parseTmx(parseXml(await res.text()), resolveTemplate);
+
+  if (opts.objectTypes) applyObjectTypeDefaults(parsed.objects, opts.objectTypes);
+
+  const [tilesets, imageLayers] = await Promise.all([
+    Promise.all(parsed.tilesets.map((ref) => loadTileSet(ref, mapUrl, opts))),
+    Promise.all(
+      parsed.imageLayers.map(async ({ image, ...l }) => ({ ...l, img: await loadImage(bustUrl(joinUrl(mapUrl, image), opts)) }))
+    ),
+  ]);
+  tilesets.sort((a, b) => a.firstgid - b.firstgid);
+
+  return { map: assembleMap(parsed, imageLayers), tilesets, ts: tilesets[0] };
+}
 
-  const local = (gid - ts.firstgid) | 0;
-  if (local < 0 || local >= ts.tilecount) return;
+/** Load class defaults from a `.tiled-project` file or a legacy objecttypes.json export. */
+export async function loadTiledObjectTypes(url: string): Promise<TiledObjectTypes> {
+  const res = await fetch(url);
+  return parseObjectTypes(await res.json());
+}
+
+/** Load a Tiled `.world` file; map URLs come back resolved against the world file. */
+export async function loadTiledWorldFile(worldUrl: string, opts: LoadTiledOpts = {}): Promise<WorldMapRef[]> {
+  const res = await fetch(bustUrl(worldUrl, opts));
+  return parseWorldFile(await res.json()).map((m) => ({ ...m, url: joinUrl(worldUrl, m.url) }));
+}
+
+export function drawTile(
+  ctx: CanvasRenderingContext2D,
+  tilesets: readonly TileSet[],
+  gidRaw: number,
+  dx: number,
+  dy: number,
+  tSec = 0
+) {
+  const ts = tilesetForGid(tilesets, gidRaw);
+  if (!ts) return;
+
+  // animated tiles swap in the current frame (tSec = game time)
+  const local = animatedLocal(ts, (((gidRaw & GID_MASK) >>> 0) - ts.firstgid) | 0, tSec);
 
   const sx = ((local % ts.columns) * ts.tw) | 0;
   const sy = (((local / ts.columns) | 0) * ts.th) | 0;
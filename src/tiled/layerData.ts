@@ -0,0 +1,146 @@
+// src/tiled/layerData.ts
+// Tile layer payload decoding shared by the TMX and TMJ loaders (no DOM needed).
+import type { TiledLayerMeta } from "../tiled";
+import type { ParsedLayer } from "./types";
+
+export function parseCsvToU32(csv: string, expected: number): Uint32Array {
+  const out = new Uint32Array(expected);
+  let n = 0,
+    v = 0,
+    inNum = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const c = csv.charCodeAt(i);
+    if (c >= 48 && c <= 57) {
+      v = v * 10 + (c - 48);
+      inNum = true;
+    } else if (inNum) {
+      out[n++] = v >>> 0;
+      if (n === expected) return out;
+      v = 0;
+      inNum = false;
+    }
+  }
+
+  if (inNum && n < expected) out[n++] = v >>> 0;
+  return out;
+}
+
+function base64ToBytes(b64: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(b64.replace(/\s+/g, ""));
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i) & 255;
+  return out;
+}
+
+// zlib/gzip go through the platform DecompressionStream (browsers + Node 18+).
+// zstd has no native decoder, so we fail loudly instead of rendering garbage.
+async function decompressBytes(bytes: Uint8Array<ArrayBuffer>, compression: string): Promise<Uint8Array<ArrayBuffer>> {
+  if (!compression) return bytes;
+
+  let format: CompressionFormat;
+  if (compression === "zlib") format = "deflate";
+  else if (compression === "gzip") format = "gzip";
+  else if (compression === "zstd") throw new Error("Tiled: zstd layer compression is not supported (use zlib or gzip)");
+  else throw new Error(`Tiled: unknown layer compression "${compression}"`);
+
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Tiled stores gids as little-endian u32s in the binary formats.
+function bytesToU32(bytes: Uint8Array, expected: number): Uint32Array {
+  const out = new Uint32Array(expected);
+  const n = Math.min(expected, bytes.length >> 2);
+  for (let i = 0; i < n; i++) {
+    const o = i << 2;
+    out[i] = (bytes[o] | (bytes[o + 1] << 8) | (bytes[o + 2] << 16) | (bytes[o + 3] << 24)) >>> 0;
+  }
+  return out;
+}
+
+/** Decode a textual layer payload ("csv" or "base64", optionally compressed). */
+export async function decodeLayerText(
+  text: string,
+  encoding: string,
+  compression: string,
+  expected: number
+): Promise<Uint32Array> {
+  if (encoding === "csv") return parseCsvToU32(text.trim(), expected);
+
+  if (encoding === "base64") {
+    const raw = base64ToBytes(text);
+    const bytes = await decompressBytes(raw, compression);
+    return bytesToU32(bytes, expected);
+  }
+
+  throw new Error(`Tiled: unknown layer encoding "${encoding}"`);
+}
+
+/** JSON maps store uncompressed layers as a plain number array. */
+export function gidsFromArray(arr: ArrayLike<number>, expected: number): Uint32Array {
+  const out = new Uint32Array(expected);
+  const n = Math.min(expected, arr.length);
+  for (let i = 0; i < n; i++) out[i] = Number(arr[i]) >>> 0;
+  return out;
+}
+
+// -----------------------------------------------------------------------------
+// Infinite maps: layers arrive as <chunk>s at arbitrary (possibly negative) tile
+// coordinates. We stitch every layer onto one dense grid covering all chunks.
+// -----------------------------------------------------------------------------
+export type TileChunk = { x: number; y: number; w: number; h: number; data: Uint32Array };
+// visible=false (Tiled's eye toggle) or a "hidden" bool property hides a layer from drawing.
+export function buildLayerMeta(visible: boolean, opacity: number, props: Record<string, string>): TiledLayerMeta {
+  const a = Number.isFinite(opacity) ? Math.max(0, Math.min(1, opacity)) : 1;
+  return { visible: visible && props["hidden"] !== "true", opacity: a, props };
+}
+
+export type ChunkedLayer = { name: string; chunks: TileChunk[]; meta: TiledLayerMeta };
+
+export type StitchedLayers = {
+  w: number;
+  h: number;
+
+  // tile coordinate (in Tiled's space) of the stitched grid's cell (0,0)
+  originX: number;
+  originY: number;
+
+  layers: ParsedLayer[];
+};
+
+export function stitchChunkedLayers(chunked: ChunkedLayer[]): StitchedLayers {
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+
+  for (const l of chunked) {
+    for (const c of l.chunks) {
+      if (c.x < minX) minX = c.x;
+      if (c.y < minY) minY = c.y;
+      if (c.x + c.w > maxX) maxX = c.x + c.w;
+      if (c.y + c.h > maxY) maxY = c.y + c.h;
+    }
+  }
+
+  if (!Number.isFinite(minX)) throw new Error("Tiled: infinite map has no chunks");
+
+  const w = (maxX - minX) | 0;
+  const h = (maxY - minY) | 0;
+
+  const layers: ParsedLayer[] = chunked.map((l) => {
+    const data = new Uint32Array(w * h);
+    for (const c of l.chunks) {
+      const ox = (c.x - minX) | 0;
+      const oy = (c.y - minY) | 0;
+      for (let y = 0; y < c.h; y++) {
+        const src = y * c.w;
+        data.set(c.data.subarray(src, src + c.w), (oy + y) * w + ox);
+      }
+    }
+    return { name: l.name, data, meta: l.meta };
+  });
+
+  return { w, h, originX: minX, originY: minY, layers };
+}
@@ -0,0 +1,47 @@
+// src/tiled/objectTypes.ts
+// Custom-type defaults: per-class property values every object of that class inherits.
+// Accepts a Tiled 1.9+ project file (`propertyTypes` class members) or a legacy
+// objecttypes.json export ([{ name, properties: [{ name, value }] }]).
+import type { TiledObject } from "../tiled";
+
+// class name -> property defaults (stringified, like object props)
+export type TiledObjectTypes = Record<string, Record<string, string>>;
+
+type JsonProp = { name?: string; value?: unknown };
+type JsonClass = { name?: string; type?: string; members?: JsonProp[]; properties?: JsonProp[] };
+
+function defaultsOf(props: JsonProp[] | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const p of props ?? []) {
+    const name = (p.name || "").trim();
+    // nested class values have no flat string form; skip them
+    if (!name || p.value == null || typeof p.value === "object") continue;
+    out[name] = String(p.value);
+  }
+  return out;
+}
+
+export function parseObjectTypes(json: unknown): TiledObjectTypes {
+  const list: JsonClass[] | undefined = Array.isArray(json)
+    ? (json as JsonClass[])
+    : (json as { propertyTypes?: JsonClass[] } | null)?.propertyTypes;
+  if (!Array.isArray(list)) throw new Error("Tiled: expected a project file or objecttypes.json");
+
+  const out: TiledObjectTypes = {};
+  for (const c of list) {
+    const name = (c.name || "").trim();
+    if (!name || (c.type && c.type !== "class")) continue; // project enums are not object types
+    out[name] = defaultsOf(c.members ?? c.properties);
+  }
+  return out;
+}
+
+/** Fill in class defaults underneath each object's own (and template) properties. */
+export function applyObjectTypeDefaults(groups: Record<string, TiledObject[]>, types: TiledObjectTypes) {
+  for (const name in groups) {
+    for (const o of groups[name]) {
+      const defaults = types[o.type];
+      if (defaults) o.props = { ...defaults, ...o.props };
+    }
+  }
+}
@@ -0,0 +1,134 @@
+// src/tiled/objects.ts
+// Object-layer helpers shared by the TMX and TMJ loaders.
+import type { TiledObject, UiTrigger } from "../tiled";
+
+export type Pt = { x: number; y: number };
+
+export function aabbFromPts(pts: Pt[]) {
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const p of pts) {
+    if (p.x < minX) minX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y > maxY) maxY = p.y;
+  }
+  if (!Number.isFinite(minX)) return { x: 0, y: 0, w: 0, h: 0 };
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+// defaults when a point/polyline trigger doesn't set `radius` / `thickness`
+const UI_POINT_RADIUS = 8;
+const UI_LINE_THICKNESS = 8;
+
+/** Any ui object shape (points relative to the object origin) → world-space trigger. */
+export function buildUiTrigger(o: TiledObject): UiTrigger | null {
+  if (!Number.isFinite(o.x) || !Number.isFinite(o.y)) return null;
+
+  const msg = (o.props["msg"] || "").trim();
+  const props = o.props;
+
+  switch (o.shape) {
+    case "polygon":
+    case "polyline": {
+      if (o.pts.length < (o.shape === "polygon" ? 3 : 2)) return null;
+      const abs = o.pts.map((p) => ({ x: o.x + p.x, y: o.y + p.y }));
+
+      const r = o.shape === "polyline" ? propNum(o, "thickness", UI_LINE_THICKNESS) / 2 : 0;
+      const box = aabbFromPts(abs);
+      const aabb = { x: box.x - r, y: box.y - r, w: box.w + r * 2, h: box.h + r * 2 };
+      return { msg, shape: o.shape, pts: abs, r, aabb, props };
+    }
+
+    case "point": {
+      const r = propNum(o, "radius", UI_POINT_RADIUS);
+      if (r <= 0) return null;
+      return { msg, shape: "point", pts: [], r, aabb: { x: o.x - r, y: o.y - r, w: r * 2, h: r * 2 }, props };
+    }
+
+    default: {
+      if (o.w <= 0 || o.h <= 0) return null;
+      // tile objects are anchored bottom-left
+      const y = o.gid ? o.y - o.h : o.y;
+      const aabb = { x: o.x, y, w: o.w, h: o.h };
+      if (o.shape === "ellipse") return { msg, shape: "ellipse", pts: [], r: 0, aabb, props };
+
+      const pts = [
+        { x: o.x, y },
+        { x: o.x + o.w, y },
+        { x: o.x + o.w, y: y + o.h },
+        { x: o.x, y: y + o.h },
+      ];
+      return { msg, shape: "rect", pts, r: 0, aabb, props };
+    }
+  }
+}
+
+export function propNum(o: TiledObject, name: string, def: number) {
+  const v = Number(o.props[name]);
+  return o.props[name] != null && Number.isFinite(v) ? v : def;
+}
+
+/** ui triggers from the "ui" object layer: any shape carrying a `msg` and/or trigger actions. */
+export function uiTriggersFromObjects(objects: TiledObject[] | undefined): UiTrigger[] {
+  const out: UiTrigger[] = [];
+  for (const o of objects ?? []) {
+    if (!Object.keys(o.props).length) continue;
+    const tr = buildUiTrigger(o);
+    if (tr) out.push(tr);
+  }
+  return out;
+}
+
+/** Shift triggers in place (infinite maps re-base the world so its top-left chunk is at 0,0). */
+export function offsetUiTriggers(triggers: UiTrigger[], dx: number, dy: number) {
+  if (!dx && !dy) return;
+  for (const tr of triggers) {
+    for (const p of tr.pts) {
+      p.x += dx;
+      p.y += dy;
+    }
+    tr.aabb.x += dx;
+    tr.aabb.y += dy;
+  }
+}
+
+export function offsetObjects(groups: Record<string, TiledObject[]>, dx: number, dy: number) {
+  if (!dx && !dy) return;
+  for (const name in groups) {
+    for (const o of groups[name]) {
+      o.x += dx;
+      o.y += dy;
+    }
+  }
+}
+
+// parsed or loaded image layers (only the offset moves)
+export function offsetImageLayers(layers: Pt[], dx: number, dy: number) {
+  if (!dx && !dy) return;
+  for (const l of layers) {
+    l.x += dx;
+    l.y += dy;
+  }
+}
+
+/** First object with this name in any object layer (document order), or null. */
+export function findObjectByName(groups: Record<string, TiledObject[]>, name: string): TiledObject | null {
+  for (const layer in groups) for (const o of groups[layer]) if (o.name === name) return o;
+  return null;
+}
+
+/** Object referenced from a property: its id (Tiled "object" properties store the id) or, failing that, its name. */
+export function findObjectByRef(groups: Record<string, TiledObject[]>, ref: string): TiledObject | null {
+  if (!ref) return null;
+  const id = /^\d+$/.test(ref) ? Number(ref) : 0;
+  if (id) for (const layer in groups) for (const o of groups[layer]) if (o.id === id) return o;
+  return findObjectByName(groups, ref);
+}
+
+/** Object bounds in world pixels (tile objects are anchored bottom-left). */
+export function objectRect(o: TiledObject) {
+  return { x: o.x, y: o.gid ? o.y - o.h : o.y, w: o.w, h: o.h };
+}
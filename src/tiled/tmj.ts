@@ -0,0 +1,308 @@
+// src/tiled/tmj.ts
+// Tiled JSON (.tmj / .tsj) parsing. Produces the same ParsedMap the TMX path does,
+// using only plain JSON (no DOMParser), so it also works in workers and Node tooling.
+import type { TiledObject, TiledObjectShape } from "../tiled";
+import {
+  type ChunkedLayer,
+  type TileChunk,
+  buildLayerMeta,
+  decodeLayerText,
+  gidsFromArray,
+  stitchChunkedLayers,
+} from "./layerData";
+import { offsetImageLayers, offsetObjects } from "./objects";
+import type {
+  ParsedImageLayer,
+  ParsedLayer,
+  ParsedMap,
+  ParsedTemplate,
+  ParsedTile,
+  ParsedTileset,
+  ParsedTilesetRef,
+  TemplateResolver,
+} from "./types";
+
+type TmjProperty = { name: string; type?: string; value: unknown };
+
+type TmjObject = {
+  id?: number;
+  name?: string;
+  type?: string;
+  class?: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  gid?: number;
+  point?: boolean;
+  ellipse?: boolean;
+  polygon?: { x: number; y: number }[];
+  polyline?: { x: number; y: number }[];
+  properties?: TmjProperty[];
+  template?: string;
+};
+
+type TmjChunk = { x: number; y: number; width: number; height: number; data: number[] | string };
+
+type TmjLayer = {
+  type: "tilelayer" | "objectgroup" | "group" | "imagelayer";
+  name?: string;
+  visible?: boolean;
+  opacity?: number;
+  properties?: TmjProperty[];
+
+  // tilelayer
+  data?: number[] | string;
+  encoding?: string;
+  compression?: string;
+  chunks?: TmjChunk[];
+
+  // objectgroup
+  objects?: TmjObject[];
+
+  // imagelayer
+  image?: string;
+  offsetx?: number;
+  offsety?: number;
+  parallaxx?: number;
+  parallaxy?: number;
+  repeatx?: boolean;
+  repeaty?: boolean;
+
+  // group
+  layers?: TmjLayer[];
+};
+
+type TmjTile = {
+  id: number;
+  type?: string;
+  class?: string;
+  properties?: TmjProperty[];
+  animation?: { tileid: number; duration: number }[];
+};
+
+type TmjTileset = {
+  firstgid?: number;
+  source?: string;
+  tiles?: TmjTile[];
+
+  tilewidth?: number;
+  tileheight?: number;
+  columns?: number;
+  tilecount?: number;
+  image?: string;
+};
+
+type TmjMap = {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  infinite?: boolean;
+  properties?: TmjProperty[];
+  layers: TmjLayer[];
+  tilesets: TmjTileset[];
+};
+
+type TjTemplate = { object?: TmjObject; tileset?: { firstgid?: number; source?: string } };
+
+const JSON_MAP_RE = /\.(tmj|json)(\?|#|$)/i;
+const JSON_TILESET_RE = /\.(tsj|json)(\?|#|$)/i;
+const JSON_TEMPLATE_RE = /\.(tj|json)(\?|#|$)/i;
+
+export const isJsonMapUrl = (url: string) => JSON_MAP_RE.test(url);
+export const isJsonTilesetUrl = (url: string) => JSON_TILESET_RE.test(url);
+export const isJsonTemplateUrl = (url: string) => JSON_TEMPLATE_RE.test(url);
+
+const int = (v: unknown, def = 0) => ((Number(v) | 0) || def);
+
+// JSON properties carry typed values; stringify so callers see the same shape as TMX.
+// Class-typed values are objects with no flat string form: skipped, as in the TMX reader.
+export function tmjProperties(props: TmjProperty[] | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!props) return out;
+  for (const p of props) {
+    const name = (p.name || "").trim();
+    if (!name || p.value == null || typeof p.value === "object") continue;
+    out[name] = typeof p.value === "string" ? p.value : String(p.value);
+  }
+  return out;
+}
+
+// Group layers nest; flatten them in document order like getElementsByTagName does for TMX.
+function flattenLayers(layers: TmjLayer[], out: TmjLayer[] = []): TmjLayer[] {
+  for (const l of layers) {
+    if (l.type === "group") flattenLayers(l.layers ?? [], out);
+    else out.push(l);
+  }
+  return out;
+}
+
+export function parseTsj(json: unknown): ParsedTileset {
+  const t = json as TmjTileset;
+  if (!t || typeof t !== "object") throw new Error("TSJ: expected a tileset object");
+  if (!t.image) throw new Error("TSJ: image source missing");
+
+  return {
+    tw: int(t.tilewidth),
+    th: int(t.tileheight),
+    columns: int(t.columns),
+    tilecount: int(t.tilecount),
+    image: t.image,
+    tiles: parseTsjTiles(t.tiles),
+  };
+}
+
+function parseTsjTiles(tiles: TmjTile[] | undefined): ParsedTile[] {
+  const out: ParsedTile[] = [];
+  for (const t of tiles ?? []) {
+    const props = tmjProperties(t.properties);
+    const cls = (props["type"] || t.class || t.type || "").trim();
+    const frames = (t.animation ?? []).map((f) => ({ tileid: int(f.tileid), ms: int(f.duration) }));
+    if (!cls && !Object.keys(props).length && !frames.length) continue;
+
+    out.push({ id: int(t.id), cls, props, frames });
+  }
+  return out;
+}
+
+function parseTilesetRef(t: TmjTileset): ParsedTilesetRef {
+  const firstgid = int(t.firstgid);
+  if (t.source) return { firstgid, source: t.source, inline: null };
+  return { firstgid, source: null, inline: parseTsj(t) };
+}
+
+const layerName = (l: TmjLayer, idx: number) => (l.name || "").trim() || `layer${idx}`;
+const layerMeta = (l: TmjLayer) => buildLayerMeta(l.visible !== false, l.opacity ?? 1, tmjProperties(l.properties));
+
+function decodeTmjData(l: TmjLayer, data: number[] | string | undefined, expected: number): Promise<Uint32Array> {
+  if (typeof data === "string") return decodeLayerText(data, l.encoding || "base64", l.compression || "", expected);
+  if (Array.isArray(data)) return Promise.resolve(gidsFromArray(data, expected));
+  throw new Error(`TMJ: layer "${l.name ?? ""}" missing data`);
+}
+
+async function parseTileLayer(l: TmjLayer, idx: number, w: number, h: number): Promise<ParsedLayer> {
+  return { name: layerName(l, idx), data: await decodeTmjData(l, l.data, w * h), meta: layerMeta(l) };
+}
+
+async function parseChunkedLayer(l: TmjLayer, idx: number): Promise<ChunkedLayer> {
+  const chunks: TileChunk[] = [];
+  for (const c of l.chunks ?? []) {
+    const w = int(c.width);
+    const h = int(c.height);
+    if (w <= 0 || h <= 0) continue;
+    chunks.push({ x: int(c.x), y: int(c.y), w, h, data: await decodeTmjData(l, c.data, w * h) });
+  }
+  return { name: layerName(l, idx), chunks, meta: layerMeta(l) };
+}
+
+function parseImageLayer(l: TmjLayer): ParsedImageLayer {
+  return {
+    name: (l.name || "").trim(),
+    image: (l.image || "").trim(),
+    x: Number(l.offsetx) || 0,
+    y: Number(l.offsety) || 0,
+    parallaxX: l.parallaxx ?? 1,
+    parallaxY: l.parallaxy ?? 1,
+    repeatX: !!l.repeatx,
+    repeatY: !!l.repeaty,
+    meta: layerMeta(l),
+  };
+}
+
+// `tpl`: the object's template (if any); fields the instance omits come from it.
+function parseTmjObject(o: TmjObject, tpl: TiledObject | null = null): TiledObject {
+  let shape: TiledObjectShape = tpl?.shape ?? "rect";
+  let pts = tpl ? tpl.pts.map((p) => ({ ...p })) : [];
+  if (o.point) shape = "point";
+  else if (o.ellipse) shape = "ellipse";
+  else if (o.polygon) shape = "polygon";
+  else if (o.polyline) shape = "polyline";
+
+  const rel = o.polygon ?? o.polyline;
+  if (rel) pts = rel.map((p) => ({ x: Number(p.x), y: Number(p.y) }));
+  else if (o.point || o.ellipse) pts = [];
+
+  const hasType = o.class !== undefined || o.type !== undefined;
+
+  return {
+    id: int(o.id),
+    name: o.name !== undefined ? o.name.trim() : (tpl?.name ?? ""),
+    type: hasType ? (o.class || o.type || "").trim() : (tpl?.type ?? ""),
+    x: Number(o.x) || 0,
+    y: Number(o.y) || 0,
+    w: o.width !== undefined ? Number(o.width) || 0 : (tpl?.w ?? 0),
+    h: o.height !== undefined ? Number(o.height) || 0 : (tpl?.h ?? 0),
+    gid: o.gid !== undefined ? Number(o.gid) >>> 0 : (tpl?.gid ?? 0),
+    shape,
+    pts,
+    props: { ...tpl?.props, ...tmjProperties(o.properties) },
+  };
+}
+
+// .tj: { type: "template", tileset?: { firstgid, source }, object: {...} }
+export function parseTj(json: unknown): ParsedTemplate {
+  const t = json as TjTemplate;
+  if (!t?.object) throw new Error("TJ: template has no object");
+
+  const ts = t.tileset;
+  return {
+    object: parseTmjObject(t.object),
+    tileset: ts?.source ? { firstgid: int(ts.firstgid), source: ts.source } : null,
+  };
+}
+
+export async function parseTmj(json: unknown, resolveTemplate: TemplateResolver): Promise<ParsedMap> {
+  const m = json as TmjMap;
+  if (!m || typeof m !== "object" || !Array.isArray(m.layers)) throw new Error("TMJ: expected a map object");
+
+  let w = int(m.width);
+  let h = int(m.height);
+  const tw = int(m.tilewidth);
+  const th = int(m.tileheight);
+
+  if (!m.tilesets?.length) throw new Error("TMJ: missing tileset");
+
+  const flat = flattenLayers(m.layers);
+  const tileLayers = flat.filter((l) => l.type === "tilelayer");
+  if (!tileLayers.length) throw new Error("TMJ: missing tile layer");
+
+  let layers: ParsedLayer[] = [];
+  let originX = 0;
+  let originY = 0;
+
+  if (m.infinite) {
+    const chunked: ChunkedLayer[] = [];
+    for (let i = 0; i < tileLayers.length; i++) chunked.push(await parseChunkedLayer(tileLayers[i], i));
+    ({ w, h, originX, originY, layers } = stitchChunkedLayers(chunked));
+  } else {
+    for (let i = 0; i < tileLayers.length; i++) layers.push(await parseTileLayer(tileLayers[i], i, w, h));
+  }
+
+  const tilesets = m.tilesets.map(parseTilesetRef);
+
+  const objects: Record<string, TiledObject[]> = {};
+  for (const l of flat) {
+    if (l.type !== "objectgroup") continue;
+    const list = (objects[(l.name || "").trim()] ??= []);
+    for (const o of l.objects ?? []) {
+      list.push(parseTmjObject(o, o.template ? await resolveTemplate(o.template, tilesets) : null));
+    }
+  }
+  offsetObjects(objects, -originX * tw, -originY * th);
+
+  const imageLayers = flat.filter((l) => l.type === "imagelayer" && l.image).map(parseImageLayer);
+  offsetImageLayers(imageLayers, -originX * tw, -originY * th);
+
+  return {
+    w,
+    h,
+    tw,
+    th,
+    props: tmjProperties(m.properties),
+    layers,
+    imageLayers,
+    objects,
+    tilesets,
+  };
+}
@@ -0,0 +1,69 @@
+// src/tiled/types.ts
+// Format-neutral intermediate produced by the TMX (XML) and TMJ (JSON) parsers.
+// Everything here is plain data, so parsing can run without a DOM.
+import type { TiledImageLayer, TiledLayerMeta, TiledObject } from "../tiled";
+
+// <animation><frame tileid duration/></animation>
+export type ParsedFrame = { tileid: number; ms: number };
+
+// Per-tile metadata from <tile> elements (only tiles that declare something)
+export type ParsedTile = {
+  id: number; // 0-based local id
+  cls: string; // "type" property, or Tiled's class/type attribute
+  props: Record<string, string>;
+  frames: ParsedFrame[]; // empty => static tile
+};
+
+export type ParsedTileset = {
+  tw: number;
+  th: number;
+  columns: number;
+  tilecount: number;
+
+  // image path relative to the file that declared it
+  image: string;
+
+  tiles: ParsedTile[];
+};
+
+export type ParsedTilesetRef = {
+  firstgid: number;
+
+  // external .tsx/.tsj path (relative to the map), or null when embedded
+  source: string | null;
+  inline: ParsedTileset | null;
+};
+
+export type ParsedLayer = { name: string; data: Uint32Array; meta: TiledLayerMeta };
+
+// image path relative to the map; loaded into TiledImageLayer.img by the shared loader
+export type ParsedImageLayer = Omit<TiledImageLayer, "img"> & { image: string };
+
+export type ParsedMap = {
+  w: number;
+  h: number;
+  tw: number;
+  th: number;
+
+  // map-level custom properties
+  props: Record<string, string>;
+
+  // tile layers in document order (group layers flattened)
+  layers: ParsedLayer[];
+  imageLayers: ParsedImageLayer[];
+
+  // ui triggers are derived from objects["ui"] at assembly (after templates + type defaults)
+  objects: Record<string, TiledObject[]>;
+
+  // in declaration order
+  tilesets: ParsedTilesetRef[];
+};
+
+// Object template (.tx / .tj). Its gid is in the template's own tileset space.
+export type ParsedTemplate = {
+  object: TiledObject;
+  tileset: { firstgid: number; source: string } | null; // source relative to the template file
+};
+
+// (template path as written in the map, the map's tileset refs) -> template object, gid in map space
+export type TemplateResolver = (source: string, tilesets: ParsedTilesetRef[]) => Promise<TiledObject>;
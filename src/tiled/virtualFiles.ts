@@ -0,0 +1,76 @@
+// src/tiled/virtualFiles.ts
+// Files handed over by the player (drag & drop, zip bundles) served as blob URLs.
+// Blob URLs aren't hierarchical, so relative references (map -> tileset -> image, templates,
+// .world entries) are resolved here by path inside the same bundle. Each URL ends in
+// "#<path>" so the extension checks (.tmj/.tsj/.world...) keep working; fetch ignores the fragment.
+
+export type VirtualFile = { path: string; data: Blob };
+
+type Bundle = { files: Map<string, string> }; // normalized path -> blob URL
+
+// opaque handle: one drop's files, released together
+export type VirtualBundle = Readonly<Bundle>;
+
+const entryOfUrl = new Map<string, { bundle: Bundle; path: string }>();
+
+// "a/./b/../c.tsx" -> "a/c.tsx"; leading "/" and ".." past the root are dropped
+function normalizePath(p: string) {
+  const out: string[] = [];
+  for (const part of p.replace(/\\/g, "/").split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") out.pop();
+    else out.push(part);
+  }
+  return out.join("/");
+}
+
+/** Register one bundle; returns normalized path -> URL for every file. */
+export function registerVirtualFiles(files: VirtualFile[]): Map<string, string> {
+  const bundle: Bundle = { files: new Map() };
+  for (const f of files) {
+    const path = normalizePath(f.path);
+    if (!path || bundle.files.has(path)) continue;
+    const url = `${URL.createObjectURL(f.data)}#${encodeURI(path)}`;
+    bundle.files.set(path, url);
+    entryOfUrl.set(url, { bundle, path });
+  }
+  return bundle.files;
+}
+
+/** The bundle a registered URL belongs to, or null for ordinary URLs. */
+export function virtualBundleOf(url: string): VirtualBundle | null {
+  return entryOfUrl.get(url)?.bundle ?? null;
+}
+
+/** Revoke every blob URL of the bundle; its files can't be fetched afterwards. */
+export function releaseVirtualBundle(bundle: VirtualBundle) {
+  for (const url of bundle.files.values()) {
+    URL.revokeObjectURL(url.slice(0, url.indexOf("#")));
+    entryOfUrl.delete(url);
+  }
+}
+
+// Loose drops lose their folders: fall back to a unique file-name match.
+function byBaseName(bundle: Bundle, path: string) {
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  let hit: string | null = null;
+  for (const [p, url] of bundle.files) {
+    if (p === name || p.endsWith("/" + name)) {
+      if (hit) return null; // ambiguous
+      hit = url;
+    }
+  }
+  return hit;
+}
+
+/** `rel` against a registered blob URL, or null when `base` isn't one (caller resolves normally). */
+export function resolveVirtualUrl(base: string, rel: string): string | null {
+  const entry = entryOfUrl.get(base);
+  if (!entry || /^[a-z][a-z0-9+.-]*:/i.test(rel)) return null;
+
+  const dir = entry.path.slice(0, entry.path.lastIndexOf("/") + 1);
+  const path = normalizePath(rel.startsWith("/") ? rel : dir + rel);
+  const url = entry.bundle.files.get(path) ?? byBaseName(entry.bundle, path);
+  if (!url) throw new Error(`Tiled: "${rel}" (used by ${entry.path}) is not among the dropped files`);
+  return url;
+}
@@ -0,0 +1,36 @@
+// src/tiled/world.ts
+// Tiled .world files (JSON): several maps placed in one pixel space.
+// Only explicit "maps" lists are supported; "patterns" need a directory listing the browser can't do.
+
+type WorldJsonMap = { fileName?: string; x?: number; y?: number; width?: number; height?: number };
+type WorldJson = { type?: string; maps?: WorldJsonMap[]; patterns?: unknown[] };
+
+export type WorldMapRef = {
+  url: string; // relative to the .world file until resolved by the loader
+  // placement + size in world pixels
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
+const WORLD_RE = /\.world(\?|#|$)/i;
+export const isWorldUrl = (url: string) => WORLD_RE.test(url);
+
+export function parseWorldFile(json: unknown): WorldMapRef[] {
+  const wf = json as WorldJson;
+  if (!wf || typeof wf !== "object") throw new Error("World: expected a world object");
+
+  if (!wf.maps?.length) {
+    throw new Error(wf.patterns?.length ? "World: pattern-based worlds are not supported" : "World: no maps");
+  }
+
+  return wf.maps.map((m) => {
+    const url = (m.fileName || "").trim();
+    const w = Number(m.width) | 0;
+    const h = Number(m.height) | 0;
+    if (!url) throw new Error("World: map entry missing fileName");
+    if (w <= 0 || h <= 0) throw new Error(`World: map "${url}" missing width/height`);
+    return { url, x: Number(m.x) | 0, y: Number(m.y) | 0, w, h };
+  });
+}
@@ -0,0 +1,14 @@
+// src/tiledHotReload.ts
+// Dev only: the "tiled-hot-reload" plugin in vite.config.ts announces saved Tiled files
+// (maps, tilesets, templates, worlds, images under public/) as a custom HMR event.
+// Production builds have no import.meta.hot, so this is a no-op there.
+
+// shared with the plugin in vite.config.ts
+export const TILED_CHANGE_EVENT = "tiled:change";
+
+export function watchTiledChanges(onChange: (path: string) => void) {
+  if (!import.meta.hot) return;
+  import.meta.hot.on(TILED_CHANGE_EVENT, (data: { path?: string }) => {
+    if (data?.path) onChange(data.path);
+  });
+}
@@ -0,0 +1,63 @@
+// src/unzip.ts
+// Minimal .zip reader for dropped level bundles: stored + deflate entries via the platform
+// DecompressionStream. No zip64, no encryption (both fail loudly).
+
+export type ZipEntry = { path: string; data: Blob };
+
+const SIG_EOCD = 0x06054b50;
+const SIG_CENTRAL = 0x02014b50;
+const SIG_LOCAL = 0x04034b50;
+
+async function inflateRaw(bytes: Uint8Array<ArrayBuffer>): Promise<Blob> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).blob();
+}
+
+export async function unzip(buf: ArrayBuffer): Promise<ZipEntry[]> {
+  const dv = new DataView(buf);
+  const bytes = new Uint8Array(buf);
+
+  // end of central directory: last 22 bytes + up to 64k of comment
+  let eocd = -1;
+  for (let i = buf.byteLength - 22; i >= Math.max(0, buf.byteLength - 22 - 0xffff); i--) {
+    if (dv.getUint32(i, true) === SIG_EOCD) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Zip: not a zip file");
+
+  const count = dv.getUint16(eocd + 10, true);
+  let p = dv.getUint32(eocd + 16, true);
+  if (p === 0xffffffff || count === 0xffff) throw new Error("Zip: zip64 archives are not supported");
+
+  const names = new TextDecoder();
+  const out: ZipEntry[] = [];
+
+  for (let n = 0; n < count; n++) {
+    if (dv.getUint32(p, true) !== SIG_CENTRAL) throw new Error("Zip: corrupt central directory");
+
+    const flags = dv.getUint16(p + 8, true);
+    const method = dv.getUint16(p + 10, true);
+    const compSize = dv.getUint32(p + 20, true);
+    const nameLen = dv.getUint16(p + 28, true);
+    const extraLen = dv.getUint16(p + 30, true);
+    const commentLen = dv.getUint16(p + 32, true);
+    const local = dv.getUint32(p + 42, true);
+    const path = names.decode(bytes.subarray(p + 46, p + 46 + nameLen));
+    p += 46 + nameLen + extraLen + commentLen;
+
+    if (path.endsWith("/")) continue; // directory
+    if (flags & 1) throw new Error(`Zip: "${path}" is encrypted`);
+
+    if (dv.getUint32(local, true) !== SIG_LOCAL) throw new Error(`Zip: corrupt entry "${path}"`);
+    const start = local + 30 + dv.getUint16(local + 26, true) + dv.getUint16(local + 28, true);
+    const raw = bytes.slice(start, start + compSize);
+
+    if (method === 0) out.push({ path, data: new Blob([raw]) });
+    else if (method === 8) out.push({ path, data: await inflateRaw(raw) });
+    else throw new Error(`Zip: "${path}" uses unsupported compression method ${method}`);
+  }
+
+  return out;
+}
@@ -1,5 +1,31 @@
-import { defineConfig } from "vite";
+import { defineConfig, normalizePath, type Plugin } from "vite";
+import { TILED_CHANGE_EVENT } from "./src/tiledHotReload";
+
+// Dev only: files saved under public/ by Tiled don't go through the module graph, so Vite
+// would ignore them. Forward them to the game (src/tiledHotReload.ts) to swap the level in place.
+function tiledHotReload(): Plugin {
+  const TILED_RE = /\.(tmx|tmj|tsx|tsj|tx|tj|world|png)$/i;
+  let publicDir = "";
+
+  return {
+    name: "tiled-hot-reload",
+    apply: "serve",
+    configResolved(config) {
+      publicDir = config.publicDir ? normalizePath(config.publicDir) : "";
+    },
+    hotUpdate({ file }) {
+      if (this.environment.name !== "client" || !publicDir) return;
+
+      const f = normalizePath(file);
+      if (!f.startsWith(publicDir + "/") || !TILED_RE.test(f)) return;
+
+      this.environment.hot.send({ type: "custom", event: TILED_CHANGE_EVENT, data: { path: f.slice(publicDir.length + 1) } });
+      return [];
+    },
+  };
+}
 
 export default defineConfig({
   base: "./",
+  plugins: [tiledHotReload()],
 });